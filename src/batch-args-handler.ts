@@ -1,40 +1,80 @@
 import { GetRequest } from "./batch-get";
 import { DeleteRequest, PutRequest } from "./batch-write";
-import { Mapper } from "./mapper";
+import { IndexField, Mapper } from "./mapper";
 import { z } from "zod";
 
 export class BatchArgsHandler<
   Id,
   Schema extends z.AnyZodObject,
   Input = z.input<Schema>,
-  Output = z.output<Schema>
+  Output extends object = z.output<Schema>
 > {
-  private mapper: Mapper<Schema>;
+  private mapper: Mapper<
+    Schema,
+    Output,
+    IndexField<Output>,
+    string,
+    string,
+    Id
+  >;
   private tableName: string;
+  private parseAndMigrate?: (rawItem: object) => Promise<Output>;
 
-  constructor(mapper: Mapper<Schema>) {
+  constructor(
+    mapper: Mapper<Schema, Output, IndexField<Output>, string, string, Id>,
+    parseAndMigrate?: (rawItem: object) => Promise<Output>
+  ) {
     this.tableName = mapper.args.tableName;
     this.mapper = mapper;
+    this.parseAndMigrate = parseAndMigrate;
   }
 
+  /**
+   * Batch writes cannot be conditional, so the versionField is
+   * incremented without checking the stored version
+   */
   put(item: Input): PutRequest<Output> {
-    const result = this.mapper.parse(item);
+    const result = this.mapper.withIncrementedVersion(
+      this.mapper.parse(this.mapper.withTimestamps(item as object))
+    );
 
     return {
       TableName: this.tableName,
       Operation: {
         PutRequest: {
-          Item: this.mapper.decorateWithKeys(result) as any,
+          Item: this.mapper.decorateWithKeys(result),
           Key: this.mapper.getKey(result),
         },
       },
     };
   }
 
-  get(item: Id): GetRequest<any> {
+  /**
+   * @param options.select Only fetches these fields, when several requests
+   *                       of a table select fields their selections are merged
+   */
+  get<Field extends Extract<keyof Output, string>>(
+    item: Id,
+    options: { select: Field[] }
+  ): GetRequest<Pick<Output, Field>>;
+  get(item: Id): GetRequest<Output>;
+  get(
+    item: Id,
+    { select }: { select?: Extract<keyof Output, string>[] } = {}
+  ): GetRequest<any> {
+    if (select) {
+      return {
+        TableName: this.tableName,
+        Key: this.mapper.getKey(item),
+        projection: this.mapper.getProjectionAttributes(select),
+        parse: async (rawItem) =>
+          this.mapper.pickedParse(rawItem, select, "output"),
+      };
+    }
     return {
       TableName: this.tableName,
-      Key: this.mapper.getKey(item as any),
+      Key: this.mapper.getKey(item),
+      ...(this.parseAndMigrate && { parse: this.parseAndMigrate }),
     };
   }
 
@@ -43,7 +83,7 @@ export class BatchArgsHandler<
       TableName: this.tableName,
       Operation: {
         DeleteRequest: {
-          Key: this.mapper.getKey(key as any),
+          Key: this.mapper.getKey(key),
         },
       },
     };
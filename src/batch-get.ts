@@ -3,18 +3,47 @@ import {
   BatchGetCommand,
   BatchGetCommandInput,
   BatchGetCommandOutput,
+  TransactGetCommand,
 } from "@aws-sdk/lib-dynamodb";
+import { BatchOptions, DEFAULT_BATCH_OPTIONS } from "./batch-write";
+import { AttributeRegistry } from "./utils/AttributeRegistry";
+import { getBackoffDelay, mapWithConcurrency, sleep } from "./utils/backoff";
+import { STDError, isSingleTableDynamoError } from "./utils/errors";
 
 export type GetRequest<ReturnType = any> = {
   TableName: string;
   Key: any;
+  /**
+   * Parses the raw item retrieved from dynamodb,
+   * repository.batch.get sets this to repository.parseAndMigrate
+   */
+  parse?: (rawItem: Record<string, unknown>) => Promise<ReturnType>;
+  /**
+   * The attributes to fetch, every attribute is fetched when undefined.
+   * Set by repository.batch.get(id, { select })
+   */
+  projection?: string[];
 };
 
 const BATCH_GET_REQUEST_LIMIT = 100;
+const TRANSACT_GET_REQUEST_LIMIT = 100;
 
+/**
+ * Items that do not exist resolve to undefined
+ *
+ * @param options.consistentRead Uses strongly consistent reads for every table
+ * @param options.parse Parses each item with the `parse` function of its request,
+ * the raw items are returned otherwise
+ * @param options How unprocessed keys are retried, see BatchOptions
+ */
 export async function batchGet<Requests extends readonly GetRequest[]>(
   ddb: DocumentClient,
-  requestsIn: Requests
+  requestsIn: Requests,
+  {
+    consistentRead = false,
+    parse = false,
+    ...options
+  }: { consistentRead?: boolean; parse?: boolean } & BatchOptions = {}
 ): Promise<{
   [K in keyof Requests]: Requests[K] extends GetRequest<infer R>
     ? R
@@ -22,15 +51,21 @@ export async function batchGet<Requests extends readonly GetRequest[]>(
 }> {
   //Here we register the primary partition and sort key fields for each table
   const tableToKeyFields: Record<string, string[]> = {};
-  //Here we register the projection fields of each table
-  const tableToProjectionFields: Record<string, Set<string>> = {};
+  //Here we register the projection fields of each table,
+  //null when a request of the table needs every attribute
+  const tableToProjectionFields: Record<string, Set<string> | null> = {};
   //here we cache the order of all the requests
   const stringKeys = requestsIn.map((r) => {
     tableToKeyFields[r.TableName] = Object.keys(r.Key);
-    if (!tableToProjectionFields[r.TableName]) {
-      tableToProjectionFields[r.TableName] = new Set<string>(
-        tableToKeyFields[r.TableName]
-      );
+    if (!r.projection) {
+      tableToProjectionFields[r.TableName] = null;
+    } else if (tableToProjectionFields[r.TableName] !== null) {
+      // the key fields are needed to match the results to their requests
+      tableToProjectionFields[r.TableName] = new Set<string>([
+        ...(tableToProjectionFields[r.TableName] ||
+          tableToKeyFields[r.TableName]),
+        ...r.projection,
+      ]);
     }
     return getStringKey(r);
   });
@@ -42,33 +77,140 @@ export async function batchGet<Requests extends readonly GetRequest[]>(
     getStringKey
   );
 
-  let unprocessed: GetRequest[] = uniqRequests.slice(0);
+  const { maxAttempts, concurrency, ...delays } = {
+    ...DEFAULT_BATCH_OPTIONS,
+    ...options,
+  };
+  const chunks: GetRequest[][] = [];
+  for (let i = 0; i < uniqRequests.length; i += BATCH_GET_REQUEST_LIMIT) {
+    chunks.push(uniqRequests.slice(i, i + BATCH_GET_REQUEST_LIMIT));
+  }
 
-  while (unprocessed.length > 0) {
-    //take off 25
-    const requests = unprocessed.splice(0, BATCH_GET_REQUEST_LIMIT);
-    const res = await ddb.send(
-      new BatchGetCommand(
-        convertRequestsToBatchGetInput(requests, tableToProjectionFields)
-      )
-    );
-    if (res.Responses) {
-      Object.entries(res.Responses).forEach(([TableName, items]) => {
-        items.forEach((item) => {
-          const Key = getKeyFromItem(tableToKeyFields[TableName], item);
-          const stringKey = getStringKey({ TableName, Key });
-          stringKeyToResult[stringKey] = item;
+  await mapWithConcurrency(chunks, concurrency, async (chunk) => {
+    let requests = chunk;
+    for (let attempt = 1; requests.length > 0; attempt++) {
+      if (attempt > 1) {
+        await sleep(getBackoffDelay(attempt - 1, delays));
+      }
+      const res = await ddb.send(
+        new BatchGetCommand(
+          convertRequestsToBatchGetInput(
+            requests,
+            tableToProjectionFields,
+            consistentRead
+          )
+        )
+      );
+      if (res.Responses) {
+        Object.entries(res.Responses).forEach(([TableName, items]) => {
+          items.forEach((item) => {
+            const Key = getKeyFromItem(tableToKeyFields[TableName], item);
+            const stringKey = getStringKey({ TableName, Key });
+            stringKeyToResult[stringKey] = item;
+          });
+        });
+      }
+      requests = _unprocessedItemsToRequests(res.UnprocessedKeys);
+      if (requests.length > 0 && attempt >= maxAttempts) {
+        throw new STDError({
+          name: "single-table-UnprocessedItemsError",
+          message: `${requests.length} keys were still unprocessed after ${attempt} attempts of batchGet`,
+          meta: {
+            attempts: attempt,
+            unprocessed: requests.map((r) => ({
+              TableName: r.TableName,
+              Key: r.Key,
+            })),
+          },
         });
-      });
+      }
     }
-    unprocessed = unprocessed.concat(
-      _unprocessedItemsToRequests(res.UnprocessedKeys)
-    );
-  }
+  });
 
   // eslint-disable-next-line @typescript-eslint/ban-ts-comment
   //@ts-expect-error
-  return stringKeys.map((r) => stringKeyToResult[r]);
+  return Promise.all(
+    requestsIn.map((request, i) => {
+      const item = stringKeyToResult[stringKeys[i]];
+      return item && parse && request.parse ? request.parse(item) : item;
+    })
+  );
+}
+
+type TransactGetResults<Requests extends readonly GetRequest[]> = {
+  [K in keyof Requests]: Requests[K] extends GetRequest<infer R>
+    ? R | null
+    : null;
+};
+
+/**
+ * Retrieves every item in a single TransactGetItems call so the
+ * results are a consistent snapshot.  Each item is parsed with the
+ * `parse` function of its request, items that do not exist resolve to null.
+ *
+ * @example
+ *    const [order, customer] = await transactGet(ddb, [
+ *      orderRepo.batch.get({ id: "1" }),
+ *      customerRepo.batch.get({ id: "2" }),
+ *    ]);
+ */
+export async function transactGet<Requests extends readonly GetRequest[]>(
+  ddb: DocumentClient,
+  requestsIn: [...Requests]
+): Promise<TransactGetResults<Requests>> {
+  const stringKeys = requestsIn.map(getStringKey);
+  // a transaction cannot contain multiple operations on the same item
+  const uniqRequests = uniqueBy(requestsIn as GetRequest[], getStringKey);
+
+  if (uniqRequests.length > TRANSACT_GET_REQUEST_LIMIT) {
+    throw new STDError({
+      name: "single-table-Error",
+      message: `transactGet can retrieve at most ${TRANSACT_GET_REQUEST_LIMIT} items, received ${uniqRequests.length}`,
+      meta: {
+        itemCount: uniqRequests.length,
+      },
+    });
+  }
+
+  try {
+    const res = await ddb.send(
+      new TransactGetCommand({
+        TransactItems: uniqRequests.map((r) => ({
+          Get: {
+            TableName: r.TableName,
+            Key: r.Key,
+            ...getProjectionExpression(r.projection && new Set(r.projection)),
+          },
+        })),
+      })
+    );
+
+    const stringKeyToResult: Record<string, unknown> = {};
+    await Promise.all(
+      uniqRequests.map(async (request, i) => {
+        const item = res.Responses?.[i]?.Item;
+        stringKeyToResult[getStringKey(request)] = item
+          ? await (request.parse ? request.parse(item) : item)
+          : null;
+      })
+    );
+
+    return stringKeys.map(
+      (r) => stringKeyToResult[r]
+    ) as TransactGetResults<Requests>;
+  } catch (e) {
+    if (isSingleTableDynamoError(e)) {
+      throw e;
+    }
+    throw new STDError({
+      message: "There was an error executing transactGet",
+      cause: e,
+      name: "single-table-Error",
+      meta: {
+        keys: uniqRequests.map((r) => ({ TableName: r.TableName, Key: r.Key })),
+      },
+    });
+  }
 }
 
 function getKeyFromItem(keyFields: string[], item: any) {
@@ -98,15 +240,19 @@ function uniqueBy<T>(things: T[], fn: (arg: T) => string) {
 
 export function convertRequestsToBatchGetInput(
   requests: GetRequest[],
-  tableToProjectionFields: Record<string, Set<string>>
+  tableToProjectionFields: Record<string, Set<string> | null>,
+  consistentRead = false
 ): BatchGetCommandInput {
   return requests.reduce<BatchGetCommandInput>(
     (prev, req) => {
       if (!prev.RequestItems![req.TableName]) {
-        prev.RequestItems![req.TableName] = { Keys: [] };
+        prev.RequestItems![req.TableName] = {
+          Keys: [],
+          ...getProjectionExpression(tableToProjectionFields[req.TableName]),
+          ...(consistentRead && { ConsistentRead: true }),
+        };
       }
       prev.RequestItems![req.TableName]!.Keys!.push(req.Key);
-      // add projection expression to this table
 
       return prev;
     },
@@ -116,6 +262,19 @@ export function convertRequestsToBatchGetInput(
   );
 }
 
+function getProjectionExpression(fields?: Set<string> | null) {
+  if (!fields) {
+    return {};
+  }
+  const registry = new AttributeRegistry();
+  return {
+    ProjectionExpression: [...fields]
+      .map((field) => registry.key(field))
+      .join(", "),
+    ...registry.get(),
+  };
+}
+
 function _unprocessedItemsToRequests(
   items: BatchGetCommandOutput["UnprocessedKeys"]
 ) {
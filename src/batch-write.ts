@@ -5,6 +5,9 @@ import {
   DynamoDBDocumentClient as DocumentClient,
 } from "@aws-sdk/lib-dynamodb";
 import { DataLoader } from "./mapper";
+import { getBackoffDelay, mapWithConcurrency, sleep } from "./utils/backoff";
+import { isSingleTableDynamoError, STDError } from "./utils/errors";
+import { pick } from "./utils/pick";
 
 export type WriteRequest = PutRequest | DeleteRequest;
 
@@ -27,6 +30,38 @@ export type DeleteRequest<T = object> = {
   };
 };
 
+/**
+ * How batch operations split requests into chunks and retry
+ * the items DynamoDB leaves unprocessed, i.e. when it is throttled
+ */
+export type BatchOptions = {
+  /**
+   * The number of times a chunk is sent before giving up on its unprocessed
+   * items with a `single-table-UnprocessedItemsError`, defaults to 10
+   */
+  maxAttempts?: number;
+  /**
+   * The base of the jittered exponential backoff between attempts
+   * in milliseconds, defaults to 50
+   */
+  baseDelay?: number;
+  /**
+   * The maximum delay between attempts in milliseconds, defaults to 5000
+   */
+  maxDelay?: number;
+  /**
+   * The number of chunks sent at the same time, defaults to 4
+   */
+  concurrency?: number;
+};
+
+export const DEFAULT_BATCH_OPTIONS: Required<BatchOptions> = {
+  maxAttempts: 10,
+  baseDelay: 50,
+  maxDelay: 5000,
+  concurrency: 4,
+};
+
 const BATCH_WRITE_REQUEST_LIMIT = 25;
 
 // https://stackoverflow.com/questions/51674820/generics-for-arrays-in-typescript-3-0
@@ -51,49 +86,26 @@ export async function batchWrite<
   ddb,
   requests: requestsIn,
   dataLoader,
+  ...options
 }: {
   ddb: DocumentClient;
   requests: Requests;
   dataLoader?: DataLoader;
-}): Promise<{
+} & BatchOptions): Promise<{
   [K in keyof Requests]: Requests[K] extends PutRequest<infer R> ? R : true;
 }> {
-  let unprocessed = requestsIn.slice(0);
-
-  while (unprocessed.length > 0) {
-    //take off 25
-    const requests = unprocessed.splice(0, BATCH_WRITE_REQUEST_LIMIT);
-    const res = await ddb.send(
-      new BatchWriteCommand(_convertRequestsToWriteInput(requests))
-    );
-    if (dataLoader) {
-      requests.map((r) => {
-        if (isPutRequest(r)) {
-          const key = {
-            TableName: r.TableName,
-            Key: r.Operation.PutRequest.Key,
-          };
-          dataLoader.clear(key);
-          dataLoader.prime(key, r.Operation.PutRequest as any);
-        } else {
-          const key = {
-            TableName: r.TableName,
-            Key: r.Operation.DeleteRequest.Key,
-          };
-          dataLoader.clear({
-            TableName: r.TableName,
-            Key: r.Operation.DeleteRequest.Key,
-          });
-          dataLoader.prime(key, {
-            $metadata: {} as any,
-          });
-        }
-      });
-    }
-
-    unprocessed = unprocessed.concat(
-      _unprocessedItemsToRequests(res.UnprocessedItems)
-    );
+  const { concurrency, maxAttempts, ...delays } = {
+    ...DEFAULT_BATCH_OPTIONS,
+    ...options,
+  };
+  const results = await mapWithConcurrency(
+    splitIntoChunks(requestsIn),
+    concurrency,
+    (chunk) => writeChunk(ddb, chunk, dataLoader, { maxAttempts, ...delays })
+  );
+  const failed = results.find((r) => r.error);
+  if (failed) {
+    throw failed.error;
   }
 
   //@ts-ignore
@@ -106,6 +118,182 @@ export async function batchWrite<
   });
 }
 
+type BatchWriteSettledResults<Requests extends WriteRequest[]> = {
+  [K in keyof Requests]: PromiseSettledResult<
+    Requests[K] extends PutRequest<infer R> ? R : true
+  >;
+};
+
+/**
+ * Like batchWrite, but never throws.  Resolves to the result of each request,
+ * in the order of the requests.  A request is rejected with the
+ * `single-table-UnprocessedItemsError` of its chunk when it was still
+ * unprocessed after maxAttempts, or with a `single-table-BatchWriteError`
+ * when its chunk could not be sent
+ */
+export async function batchWriteSettled<
+  Requests extends Array<PutRequest | DeleteRequest>
+>({
+  ddb,
+  requests,
+  dataLoader,
+  ...options
+}: {
+  ddb: DocumentClient;
+  requests: Requests;
+  dataLoader?: DataLoader;
+} & BatchOptions): Promise<BatchWriteSettledResults<Requests>> {
+  const { concurrency, maxAttempts, ...delays } = {
+    ...DEFAULT_BATCH_OPTIONS,
+    ...options,
+  };
+  const chunks = splitIntoChunks(requests);
+  const results = await mapWithConcurrency(chunks, concurrency, (chunk) =>
+    writeChunk(ddb, chunk, dataLoader, { maxAttempts, ...delays })
+  );
+
+  const settled: PromiseSettledResult<unknown>[] = [];
+  chunks.forEach((chunk, i) => {
+    const { unprocessed, error } = results[i];
+    const unprocessedKeys = new Set(unprocessed.map(getRequestId));
+    const reason =
+      !error || isSingleTableDynamoError(error)
+        ? error
+        : new STDError({
+            name: "single-table-BatchWriteError",
+            message: `batchWrite of ${unprocessed.length} items failed: ${
+              (error as Error)?.message
+            }`,
+            cause: error,
+            meta: { unprocessed: unprocessed.map(toKeyMeta) },
+          });
+    chunk.forEach((r) =>
+      settled.push(
+        unprocessedKeys.has(getRequestId(r))
+          ? { status: "rejected", reason }
+          : {
+              status: "fulfilled",
+              value: isPutRequest(r) ? r.Operation.PutRequest.Item : true,
+            }
+      )
+    );
+  });
+  return settled as BatchWriteSettledResults<Requests>;
+}
+
+function splitIntoChunks(requests: WriteRequest[]) {
+  const chunks: WriteRequest[][] = [];
+  for (let i = 0; i < requests.length; i += BATCH_WRITE_REQUEST_LIMIT) {
+    chunks.push(requests.slice(i, i + BATCH_WRITE_REQUEST_LIMIT));
+  }
+  return chunks;
+}
+
+/**
+ * Sends a chunk of at most 25 requests until every request is processed,
+ * resolves to the requests that were not written and why
+ */
+async function writeChunk(
+  ddb: DocumentClient,
+  chunk: WriteRequest[],
+  dataLoader: DataLoader | undefined,
+  {
+    maxAttempts,
+    ...delays
+  }: { maxAttempts: number; baseDelay: number; maxDelay: number }
+): Promise<{ unprocessed: WriteRequest[]; error?: unknown }> {
+  //Here we register the key fields of each table, to get the keys of unprocessed puts
+  const tableToKeyFields: Record<string, string[]> = {};
+  chunk.forEach((r) => {
+    tableToKeyFields[r.TableName] = Object.keys(getRequestKey(r));
+  });
+
+  let requests = chunk;
+  for (let attempt = 1; requests.length > 0; attempt++) {
+    if (attempt > 1) {
+      await sleep(getBackoffDelay(attempt - 1, delays));
+    }
+    let res: BatchWriteCommandOutput;
+    try {
+      res = await ddb.send(
+        new BatchWriteCommand(_convertRequestsToWriteInput(requests))
+      );
+    } catch (error) {
+      return { unprocessed: requests, error };
+    }
+    const unprocessed = _unprocessedItemsToRequests(
+      res.UnprocessedItems,
+      tableToKeyFields
+    );
+    if (dataLoader) {
+      // the unprocessed requests were not written yet
+      const unprocessedIds = new Set(unprocessed.map(getRequestId));
+      primeDataLoader(
+        dataLoader,
+        requests.filter((r) => !unprocessedIds.has(getRequestId(r)))
+      );
+    }
+    requests = unprocessed;
+    if (requests.length > 0 && attempt >= maxAttempts) {
+      return {
+        unprocessed: requests,
+        error: new STDError({
+          name: "single-table-UnprocessedItemsError",
+          message: `${requests.length} items were still unprocessed after ${attempt} attempts of batchWrite`,
+          meta: { attempts: attempt, unprocessed: requests.map(toKeyMeta) },
+        }),
+      };
+    }
+  }
+  return { unprocessed: [] };
+}
+
+function toKeyMeta(r: WriteRequest) {
+  return { TableName: r.TableName, Key: getRequestKey(r) };
+}
+
+// the keys of unprocessed items may not list their attributes in the same order
+function getRequestId(r: WriteRequest) {
+  const key = getRequestKey(r);
+  return (
+    r.TableName +
+    Object.keys(key)
+      .sort()
+      .map((prop) => `${prop}:${key[prop]}`)
+  );
+}
+
+function primeDataLoader(dataLoader: DataLoader, requests: WriteRequest[]) {
+  requests.map((r) => {
+    if (isPutRequest(r)) {
+      const key = {
+        TableName: r.TableName,
+        Key: r.Operation.PutRequest.Key,
+      };
+      dataLoader.clear(key);
+      dataLoader.prime(key, r.Operation.PutRequest as any);
+    } else {
+      const key = {
+        TableName: r.TableName,
+        Key: r.Operation.DeleteRequest.Key,
+      };
+      dataLoader.clear({
+        TableName: r.TableName,
+        Key: r.Operation.DeleteRequest.Key,
+      });
+      dataLoader.prime(key, {
+        $metadata: {} as any,
+      });
+    }
+  });
+}
+
+function getRequestKey(r: WriteRequest): Record<string, unknown> {
+  return isPutRequest(r)
+    ? r.Operation.PutRequest.Key
+    : r.Operation.DeleteRequest.Key;
+}
+
 function isPutRequest(r: WriteRequest): r is PutRequest {
   const temp = r as PutRequest;
   return Boolean(temp?.Operation?.PutRequest?.Item);
@@ -132,7 +320,8 @@ function _convertRequestsToWriteInput(
 }
 
 function _unprocessedItemsToRequests(
-  items: BatchWriteCommandOutput["UnprocessedItems"]
+  items: BatchWriteCommandOutput["UnprocessedItems"],
+  tableToKeyFields: Record<string, string[]>
 ) {
   const requests: WriteRequest[] = [];
   if (items) {
@@ -140,7 +329,17 @@ function _unprocessedItemsToRequests(
       items[TableName].forEach((Operation) =>
         requests.push({
           TableName,
-          Operation: Operation as any,
+          Operation: (Operation.PutRequest
+            ? {
+                PutRequest: {
+                  Item: Operation.PutRequest.Item,
+                  Key: pick(
+                    Operation.PutRequest.Item as Record<string, unknown>,
+                    ...(tableToKeyFields[TableName] || [])
+                  ),
+                },
+              }
+            : Operation) as any,
         })
       );
     });
@@ -0,0 +1,226 @@
+import { QueryCommand } from "@aws-sdk/lib-dynamodb";
+import { IndexBase, ifSecondaryIndexGetName } from "./mapper";
+import { QueryBuilder } from "./query-builder";
+import { InferIndexTag } from "./relationships";
+import { AnyRepository, InferObjectType } from "./repository";
+import { STDError } from "./utils/errors";
+
+type AnyRepositories = Record<string, AnyRepository>;
+
+/**
+ * The index tags every repository has in common
+ */
+export type CommonIndexTag<Repos extends AnyRepositories> = {
+  [K in keyof Repos]: (tag: InferIndexTag<Repos[K]>) => void;
+}[keyof Repos] extends (tag: infer Tag) => void
+  ? Extract<Tag, string>
+  : never;
+
+export type CollectionItems<Repos extends AnyRepositories> = {
+  [K in keyof Repos]: InferObjectType<Repos[K]>[];
+};
+
+/**
+ * Queries the items of several repositories stored in the same item collection.
+ * The index of every repository must use the same partition key, which is the
+ * case when they share a partitionKeyPrefix and their partition key fields.
+ * Items are told apart by the typeName prefix of their sort key.
+ *
+ * @example
+ *    const { Items } = await collection(
+ *      { Customer: customerRepo, Order: orderRepo },
+ *      "customerId"
+ *    )
+ *      .where({ customerId: "c1" })
+ *      .exec();
+ *    Items.Customer; // Customer[]
+ *    Items.Order; // Order[]
+ */
+export function collection<Repos extends AnyRepositories>(
+  repositories: Repos,
+  indexTag: CommonIndexTag<Repos>
+) {
+  return new CollectionQuery<Repos>({ repositories, indexTag });
+}
+
+type CollectionQueryArgs<Repos extends AnyRepositories> = {
+  repositories: Repos;
+  indexTag: string;
+  builder?: QueryBuilder;
+};
+
+export class CollectionQuery<Repos extends AnyRepositories> {
+  repositories: Repos;
+  indexTag: string;
+  builder: QueryBuilder;
+  decodeCursor = (cursor: string) =>
+    this.getIndexes()[0].repository.mapper.decodeCursor(cursor);
+
+  constructor(args: CollectionQueryArgs<Repos>) {
+    this.repositories = args.repositories;
+    this.indexTag = args.indexTag;
+
+    const [first, ...rest] = this.getIndexes();
+    if (!first) {
+      throw new STDError({
+        name: "single-table-Error",
+        message: "A collection requires at least one repository",
+      });
+    }
+    const describe = ({ repository, index }: typeof first) =>
+      [
+        repository.args.tableName,
+        ifSecondaryIndexGetName(index),
+        index.pk,
+        index.sk,
+      ].join("/");
+    const mismatched = rest.filter((i) => describe(i) !== describe(first));
+    if (mismatched.length > 0) {
+      throw new STDError({
+        name: "single-table-Error",
+        message: `Every repository of a collection must use the same table and index, ${mismatched
+          .map((i) => i.repository.args.typeName)
+          .join(", ")} do not match ${first.repository.args.typeName}`,
+        meta: {
+          indexTag: this.indexTag,
+          indexes: [first, ...rest].map(describe),
+        },
+      });
+    }
+
+    const secondaryIndexName = ifSecondaryIndexGetName(first.index);
+    this.builder =
+      args.builder ||
+      (secondaryIndexName
+        ? new QueryBuilder().index(secondaryIndexName)
+        : new QueryBuilder()
+      ).table(first.repository.args.tableName);
+  }
+
+  private getIndexes() {
+    return Object.entries(this.repositories).map(([name, repository]) => ({
+      name,
+      repository,
+      index: repository.getIndexByTag(this.indexTag) as IndexBase<object>,
+    }));
+  }
+
+  clone(builder: QueryBuilder = this.builder) {
+    return new CollectionQuery<Repos>({
+      repositories: this.repositories,
+      indexTag: this.indexTag,
+      builder: builder.cloneWith(),
+    });
+  }
+
+  limit(t: number) {
+    return this.clone(this.builder.limit(t));
+  }
+
+  sort(direction: "asc" | "desc") {
+    return this.clone(this.builder.sort(direction));
+  }
+
+  cursor(str: string) {
+    return this.clone(this.builder.cursor(this.decodeCursor(str)));
+  }
+
+  /**
+   * Sets the partition to query, src must contain the
+   * partition key fields of the index
+   */
+  where(src: Record<string, unknown>) {
+    const indexes = this.getIndexes();
+    const pks = indexes.map(
+      ({ repository, index }) =>
+        repository.mapper.getIndexKey(src, index, { partial: true })[index.pk]
+    );
+    if (new Set(pks).size > 1) {
+      throw new STDError({
+        name: "single-table-Error",
+        message: `The repositories of a collection must share a partition key, give their indexes the same partitionKeyPrefix`,
+        meta: {
+          indexTag: this.indexTag,
+          partitionKeys: pks,
+        },
+      });
+    }
+    return this.clone(this.builder.where(indexes[0].index.pk, "=", pks[0]));
+  }
+
+  async exec() {
+    const indexes = this.getIndexes();
+    const { mapper } = indexes[0].repository;
+    const { cursor } = this.builder.data;
+    if (cursor) {
+      const partition = this.builder.data.keyConditions.find(
+        (c) => c.fieldName === indexes[0].index.pk
+      )?.value;
+      mapper.assertCursorMatchesIndex(
+        cursor,
+        indexes[0].index,
+        typeof partition === "string" ? partition : undefined
+      );
+    }
+    const expression = this.builder.build();
+    const res = await indexes[0].repository.ddb.send(
+      new QueryCommand(expression)
+    );
+
+    const parsed = await Promise.all(
+      (res.Items || []).map(async (item) => {
+        const owner = indexes.find(({ repository, index }) =>
+          repository.mapper.isOwnItem(item, index)
+        );
+        // items of other types (and history snapshots) are skipped
+        if (
+          !owner ||
+          owner.repository.mapper.isExpired(item) ||
+          owner.repository.mapper.isDeleted(item)
+        ) {
+          return null;
+        }
+        return {
+          name: owner.name,
+          item: await owner.repository.parseAndMigrate(item),
+        };
+      })
+    );
+
+    const Items = Object.fromEntries(
+      indexes.map(({ name }) => [name, [] as unknown[]])
+    );
+    for (const result of parsed) {
+      if (result) {
+        Items[result.name].push(result.item);
+      }
+    }
+
+    return {
+      Items: Items as CollectionItems<Repos>,
+      hasNextPage: !!res.LastEvaluatedKey,
+      lastCursor: res.LastEvaluatedKey
+        ? mapper.encodeCursor(res.LastEvaluatedKey)
+        : undefined,
+    };
+  }
+
+  /**
+   * iterates over the item collection in batches
+   *
+   * @example
+   *    for await (const { Customer, Order } of query.execAll()) {
+   *      console.log(Customer, Order);
+   *    }
+   */
+  async *execAll(): AsyncGenerator<CollectionItems<Repos>> {
+    let cursor: string | undefined;
+    do {
+      const page = await (cursor ? this.cursor(cursor).exec() : this.exec());
+      if (Object.values(page.Items).some((items) => items.length)) {
+        yield page.Items;
+      }
+      cursor = page.lastCursor;
+    } while (cursor);
+  }
+}
@@ -0,0 +1,175 @@
+import { AttributeRegistry } from "./utils/AttributeRegistry";
+
+export type ComparisonOperator = "=" | "<>" | "<" | "<=" | ">" | ">=";
+
+/**
+ * The types of dynamodb attributes, see attribute_type
+ */
+export type AttributeType =
+  | "S"
+  | "SS"
+  | "N"
+  | "NS"
+  | "B"
+  | "BS"
+  | "BOOL"
+  | "NULL"
+  | "L"
+  | "M";
+
+/**
+ * What contains can look for in a value: a substring
+ * of a string or an element of a list or set
+ */
+export type ContainedValue<Value> = NonNullable<Value> extends string
+  ? string
+  : NonNullable<Value> extends readonly (infer E)[]
+  ? E
+  : NonNullable<Value> extends Set<infer E>
+  ? E
+  : never;
+
+export type FieldCondition<Value> =
+  | [ComparisonOperator, Value]
+  | ["BETWEEN", Value, Value]
+  | ["BEGINS_WITH", Value]
+  | ["IN", Value[]]
+  | ["CONTAINS", ContainedValue<Value>];
+
+export type FieldConditions<T> = {
+  [K in keyof T]?: FieldCondition<T[K]>;
+};
+
+export type SizeCondition =
+  | [ComparisonOperator, number]
+  | ["BETWEEN", number, number]
+  | ["IN", number[]];
+
+/**
+ * A condition on the fields of an item.
+ * Every field of a FieldConditions object must match,
+ * and, or and not group the conditions they contain.
+ *
+ * @example
+ *    {
+ *      or: [
+ *        { status: ["=", "draft"], tags: ["CONTAINS", "news"] },
+ *        { attributeNotExists: "publishedAt" },
+ *        { size: { title: [">", 100] } },
+ *      ],
+ *    }
+ */
+export type Condition<T> =
+  | FieldConditions<T>
+  | { attributeExists: Extract<keyof T, string> }
+  | { attributeNotExists: Extract<keyof T, string> }
+  | { attributeType: { [K in keyof T]?: AttributeType } }
+  | { size: { [K in keyof T]?: SizeCondition } }
+  | { and: Condition<T>[] }
+  | { or: Condition<T>[] }
+  | { not: Condition<T> };
+
+export function buildConditionExpression<T>(
+  condition: Condition<T>,
+  registry: AttributeRegistry
+): string {
+  const c = condition as Record<string, unknown>;
+  if (Array.isArray(c.and)) {
+    return joinExpressions(c.and, "AND", registry);
+  }
+  if (Array.isArray(c.or)) {
+    return joinExpressions(c.or, "OR", registry);
+  }
+  if (c.not && typeof c.not === "object" && !Array.isArray(c.not)) {
+    return `NOT (${buildConditionExpression(c.not as Condition<T>, registry)})`;
+  }
+  if (typeof c.attributeExists === "string") {
+    return `attribute_exists(${registry.key(c.attributeExists)})`;
+  }
+  if (typeof c.attributeNotExists === "string") {
+    return `attribute_not_exists(${registry.key(c.attributeNotExists)})`;
+  }
+  if (isFieldMap(c.attributeType)) {
+    return joinFieldExpressions(
+      c.attributeType,
+      (field, type) =>
+        `attribute_type(${registry.key(field)}, ${registry.value(type)})`
+    );
+  }
+  if (isFieldMap(c.size)) {
+    return joinFieldExpressions(c.size, (field, sizeCondition) =>
+      buildFieldCondition(
+        field,
+        sizeCondition as SizeCondition,
+        registry,
+        `size(${registry.key(field)})`
+      )
+    );
+  }
+
+  return joinFieldExpressions(c, (field, fieldCondition) =>
+    buildFieldCondition(
+      field,
+      fieldCondition as FieldCondition<unknown>,
+      registry
+    )
+  );
+}
+
+function isFieldMap(thing: unknown): thing is Record<string, unknown> {
+  return !!thing && typeof thing === "object" && !Array.isArray(thing);
+}
+
+function joinFieldExpressions<V>(
+  fields: Record<string, V | undefined>,
+  build: (field: string, value: V) => string
+) {
+  const expressions = Object.entries(fields).flatMap(([field, value]) =>
+    value === undefined ? [] : [build(field, value)]
+  );
+  if (expressions.length === 0) {
+    throw new Error("A condition must contain at least one field condition");
+  }
+  return expressions.length === 1
+    ? expressions[0]
+    : expressions.map((e) => `(${e})`).join(" AND ");
+}
+
+function joinExpressions<T>(
+  conditions: Condition<T>[],
+  joiner: "AND" | "OR",
+  registry: AttributeRegistry
+) {
+  if (conditions.length === 0) {
+    throw new Error(`${joiner.toLowerCase()} requires at least one condition`);
+  }
+  return conditions
+    .map((condition) => `(${buildConditionExpression(condition, registry)})`)
+    .join(` ${joiner} `);
+}
+
+function buildFieldCondition(
+  field: string,
+  [operator, value, secondValue]: FieldCondition<unknown> | SizeCondition,
+  registry: AttributeRegistry,
+  name = registry.key(field)
+) {
+  if (operator === "BETWEEN") {
+    return `${name} BETWEEN ${registry.value(value)} AND ${registry.value(
+      secondValue
+    )}`;
+  }
+  if (operator === "BEGINS_WITH") {
+    return `begins_with(${name}, ${registry.value(value)})`;
+  }
+  if (operator === "CONTAINS") {
+    return `contains(${name}, ${registry.value(value)})`;
+  }
+  if (operator === "IN") {
+    if (!Array.isArray(value) || value.length === 0) {
+      throw new Error(`IN requires at least one value for ${field}`);
+    }
+    return `${name} IN (${value.map((v) => registry.value(v)).join(", ")})`;
+  }
+  return `${name} ${operator} ${registry.value(value)}`;
+}
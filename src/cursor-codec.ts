@@ -0,0 +1,123 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createHmac,
+  randomBytes,
+  timingSafeEqual,
+} from "crypto";
+import { STDError } from "./utils/errors";
+
+/**
+ * Turns the key a query or scan stopped at into the cursor
+ * returned to callers, and a cursor back into the key
+ */
+export type CursorCodec = {
+  encode: (key: object) => string;
+  decode: (cursor: string) => object;
+};
+
+/**
+ * The default codec, cursors are base64 encoded JSON
+ * so callers can read the keys of the table
+ */
+export const base64CursorCodec: CursorCodec = {
+  encode: (key) => Buffer.from(JSON.stringify(key)).toString("base64"),
+  decode: (cursor) =>
+    JSON.parse(Buffer.from(cursor, "base64").toString("utf-8")),
+};
+
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+/**
+ * Signs cursors with an HMAC of secret so they cannot be forged,
+ * decoding a cursor that was not signed with secret throws a
+ * `single-table-InvalidCursorError`.  With an encryptionKey the
+ * key is also encrypted with AES-256-GCM so it cannot be read
+ *
+ * @example
+ *    new Repository({
+ *      ...
+ *      cursorCodec: signedCursorCodec({
+ *        secret: process.env.CURSOR_SECRET,
+ *        encryptionKey: process.env.CURSOR_ENCRYPTION_KEY,
+ *      }),
+ *    });
+ */
+export function signedCursorCodec({
+  secret,
+  encryptionKey,
+}: {
+  secret: string | Buffer;
+  /**
+   * Any string or buffer, it is hashed to a 256 bit key
+   */
+  encryptionKey?: string | Buffer;
+}): CursorCodec {
+  const key =
+    encryptionKey && createHash("sha256").update(encryptionKey).digest();
+  const sign = (body: string) =>
+    createHmac("sha256", secret).update(body).digest("base64url");
+
+  return {
+    encode(value) {
+      const json = Buffer.from(JSON.stringify(value));
+      let body: Buffer = json;
+      if (key) {
+        const iv = randomBytes(IV_LENGTH);
+        const cipher = createCipheriv("aes-256-gcm", key, iv);
+        const encrypted = Buffer.concat([cipher.update(json), cipher.final()]);
+        body = Buffer.concat([iv, cipher.getAuthTag(), encrypted]);
+      }
+      const encoded = body.toString("base64url");
+      return `${encoded}.${sign(encoded)}`;
+    },
+    decode(cursor) {
+      const [encoded, signature, ...rest] = `${cursor}`.split(".");
+      const expected = Buffer.from(sign(encoded || ""));
+      if (
+        !encoded ||
+        !signature ||
+        rest.length > 0 ||
+        Buffer.from(signature).length !== expected.length ||
+        !timingSafeEqual(Buffer.from(signature), expected)
+      ) {
+        throw invalidCursorError("the cursor signature is invalid");
+      }
+      let json = Buffer.from(encoded, "base64url");
+      if (key) {
+        try {
+          const decipher = createDecipheriv(
+            "aes-256-gcm",
+            key,
+            json.subarray(0, IV_LENGTH)
+          );
+          decipher.setAuthTag(
+            json.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH)
+          );
+          json = Buffer.concat([
+            decipher.update(json.subarray(IV_LENGTH + AUTH_TAG_LENGTH)),
+            decipher.final(),
+          ]);
+        } catch (e) {
+          throw invalidCursorError("the cursor could not be decrypted", e);
+        }
+      }
+      return JSON.parse(json.toString("utf-8"));
+    },
+  };
+}
+
+export function invalidCursorError(
+  reason: string,
+  cause?: unknown,
+  meta?: Record<string, unknown>
+) {
+  return new STDError({
+    name: "single-table-InvalidCursorError",
+    message: `Invalid cursor, ${reason}`,
+    cause,
+    meta: { reason, ...meta },
+  });
+}
@@ -8,12 +8,15 @@ import {
   IndexBase,
   RawResult,
 } from "./mapper";
+import { Condition } from "./condition-expression";
+import { base64CursorCodec } from "./cursor-codec";
 import { Operator, QueryBuilder } from "./query-builder";
 import { AnyRepository } from "./repository";
+import { STDError } from "./utils/errors";
+import { joinConditions } from "./utils/getKeyCondition";
 
 export function decodeCursor(cursor: string): object {
-  const decodedCursor = Buffer.from(cursor, "base64").toString("utf-8");
-  return JSON.parse(decodedCursor);
+  return base64CursorCodec.decode(cursor);
 }
 
 export function getCursorEncoder<Src extends object>(args: {
@@ -28,14 +31,40 @@ export function getCursorEncoder<Src extends object>(args: {
         args.mapper.getIndexKey(src, args.secondaryIndex)),
     };
 
-    return encodeFromKeys(json);
+    return args.mapper.encodeCursor(json);
   };
 }
 
 export function encodeFromKeys(args: Record<string, string>) {
-  return Buffer.from(JSON.stringify(args)).toString("base64");
+  return base64CursorCodec.encode(args);
 }
 
+export type PaginateArgs = {
+  /**
+   * The number of items after `after`, defaults to the limit of the query
+   */
+  first?: number;
+  after?: string;
+  /**
+   * The number of items before `before`, defaults to the limit of the query
+   */
+  last?: number;
+  before?: string;
+};
+
+/**
+ * A page of items in the shape of a Relay connection
+ */
+export type Connection<T> = {
+  edges: { node: T; cursor: string }[];
+  pageInfo: {
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+    startCursor?: string;
+    endCursor?: string;
+  };
+};
+
 type IndexQueryBuilderArgs<T> = {
   tableName: string;
   mapper: Mapper;
@@ -43,6 +72,11 @@ type IndexQueryBuilderArgs<T> = {
   index: IndexBase<T>;
   builder?: QueryBuilder;
   ddb: DocumentClient;
+  includeDeleted?: boolean;
+  /**
+   * The fields selected with select(), the full item is returned when undefined
+   */
+  select?: string[];
 };
 
 export class IndexQueryBuilder<Src extends object> {
@@ -53,7 +87,9 @@ export class IndexQueryBuilder<Src extends object> {
   builder: QueryBuilder;
   ddb: DocumentClient;
   encodeCursor: (src: Src) => string;
-  decodeCursor = decodeCursor;
+  decodeCursor = (cursor: string) => this.mapper.decodeCursor(cursor);
+  private _includeDeleted: boolean;
+  private _select?: string[];
 
   constructor(args: IndexQueryBuilderArgs<Src>) {
     this.tableName = args.tableName;
@@ -61,6 +97,8 @@ export class IndexQueryBuilder<Src extends object> {
     this.index = args.index;
     this.ddb = args.ddb;
     this.parseAndMigrate = args.parseAndMigrate;
+    this._includeDeleted = !!args.includeDeleted;
+    this._select = args.select;
     this.builder = (args.builder || new QueryBuilder()).table(args.tableName);
 
     this.encodeCursor = getCursorEncoder<any>({
@@ -82,9 +120,65 @@ export class IndexQueryBuilder<Src extends object> {
       ddb: this.ddb,
       parseAndMigrate: this.parseAndMigrate,
       builder: builder.cloneWith(),
+      includeDeleted: this._includeDeleted,
+      select: this._select,
     });
   }
 
+  /**
+   * Includes soft deleted items in the results, only relevant
+   * when the repository uses softDelete.  Soft deleted items
+   * have no secondary index keys so they are only found by
+   * queries on the primary index
+   */
+  includeDeleted() {
+    const clone = this.clone();
+    clone._includeDeleted = true;
+    return clone;
+  }
+
+  /**
+   * Only fetches the selected fields using a ProjectionExpression,
+   * the results are validated against the selected fields of the schema
+   *
+   * @example
+   *    const { Items } = await userRepo
+   *      .query("orgId")
+   *      .where({ orgId })
+   *      .select("id", "name")
+   *      .exec(); // Pick<User, "id" | "name">[]
+   */
+  select<K extends Extract<keyof Src, string>>(
+    ...fields: K[]
+  ): IndexQueryBuilder<Pick<Src, K>> {
+    const clone = this.clone(
+      this.builder.select(this.mapper.getProjectionAttributes(fields))
+    );
+    clone._select = fields;
+    return clone as unknown as IndexQueryBuilder<Pick<Src, K>>;
+  }
+
+  /**
+   * Uses a strongly consistent read, so the results reflect every write
+   * that succeeded before the query.  Only queries of the primary index
+   * can be consistent, dynamodb does not support consistent reads of
+   * global secondary indexes
+   */
+  consistentRead() {
+    const indexName = ifSecondaryIndexGetName(this.index);
+    if (indexName) {
+      throw new STDError({
+        name: "single-table-Error",
+        message: `Consistent reads are not supported on global secondary indexes, ${this.mapper.args.typeName} cannot query ${indexName} with consistentRead`,
+        meta: {
+          typeName: this.mapper.args.typeName,
+          indexName,
+        },
+      });
+    }
+    return this.clone(this.builder.consistentRead());
+  }
+
   limit(t: number) {
     return this.clone(this.builder.limit(t));
   }
@@ -99,30 +193,153 @@ export class IndexQueryBuilder<Src extends object> {
   }
 
   build() {
+    this.assertCursorMatchesQuery();
     return this.builder.build();
   }
 
-  filter<K extends keyof Src>(key: K, op: Operator, value: Src[K]) {
-    if (typeof key === "string") {
+  /**
+   * Cursors come from callers, so a cursor must be a key of the
+   * queried index in the queried partition, a cursor of another
+   * partition would let a caller read it
+   */
+  private assertCursorMatchesQuery() {
+    const { cursor } = this.builder.data;
+    if (!cursor) {
+      return;
+    }
+    const partition = this.builder.data.keyConditions.find(
+      (c) => c.fieldName === this.index.pk && c.operator === "="
+    )?.value;
+    this.mapper.assertCursorMatchesIndex(
+      cursor,
+      this.index,
+      typeof partition === "string" ? partition : undefined
+    );
+  }
+
+  /**
+   * Filters the items read, either comparing a field to a value
+   * or with a condition that can combine and, or and not
+   *
+   * @example
+   *    .filter("stars", ">", 3)
+   *    .filter({
+   *      or: [
+   *        { tags: ["CONTAINS", "urgent"] },
+   *        { size: { comments: [">", 10] } },
+   *        { not: { attributeExists: "archivedAt" } },
+   *      ],
+   *    })
+   */
+  filter(condition: Condition<Src>): IndexQueryBuilder<Src>;
+  filter<K extends keyof Src>(
+    key: K,
+    op: Operator,
+    value: Src[K]
+  ): IndexQueryBuilder<Src>;
+  filter<K extends keyof Src>(
+    key: K | Condition<Src>,
+    op?: Operator,
+    value?: Src[K]
+  ) {
+    if (typeof key === "object") {
+      return this.clone(this.builder.filterWhere(key));
+    }
+    if (typeof key === "string" && op) {
       return this.clone(this.builder.filter(key, op, value as any));
     } else {
       throw new Error("key in filter(key, op, value) must be a string");
     }
   }
 
+  /**
+   * Executes the query
+   *
+   * @param options.fillPage DynamoDB applies the limit before filters, so a
+   *                         filtered page can have fewer items than the limit.
+   *                         With fillPage, queries are repeated until the page
+   *                         has limit items, or maxReads queries were made.
+   *                         When the page is cut short, lastCursor is the cursor
+   *                         of the last returned item (select() must then
+   *                         include the key fields of the index)
+   * @param options.maxReads The maximum number of queries made to fill a page, defaults to 10
+   */
   async exec({
     parseExceptionBehavior = "throw",
+    fillPage = false,
+    maxReads = 10,
   }: {
     parseExceptionBehavior?: "throw" | "ignore";
+    fillPage?: boolean;
+    maxReads?: number;
   } = {}) {
-    const expression = this.builder.build();
+    const first = await this.execPage(parseExceptionBehavior);
+    if (!fillPage) {
+      return first;
+    }
+
+    const limit = this.builder.data.limit || 20;
+    const Items = [...first.Items];
+    let page = first;
+    let ScannedCount = page.ScannedCount ?? 0;
+    for (
+      let reads = 1;
+      Items.length < limit && page.lastCursor && reads < maxReads;
+      reads++
+    ) {
+      page = await this.cursor(page.lastCursor).execPage(
+        parseExceptionBehavior
+      );
+      Items.push(...page.Items);
+      ScannedCount += page.ScannedCount ?? 0;
+    }
+
+    if (Items.length < limit || (Items.length === limit && !page.lastCursor)) {
+      return Object.assign(page, {
+        Items,
+        Count: Items.length,
+        ScannedCount,
+      });
+    }
+    // the items after the last returned item are read again by the next page
+    const returned = Items.slice(0, limit);
+    const last = returned[returned.length - 1];
+    return Object.assign(page, {
+      Items: returned,
+      Count: returned.length,
+      ScannedCount,
+      LastEvaluatedKey: {
+        ...this.mapper.getIndexKey(last, this.mapper.args.primaryIndex),
+        ...this.mapper.getIndexKey(last, this.index),
+      },
+      hasNextPage: true,
+      lastCursor: this.encodeCursor(last),
+    });
+  }
+
+  private async execPage(parseExceptionBehavior: "throw" | "ignore") {
+    const expression = this.build();
     this.mapper.args.on?.queryStart?.(expression);
-    const _res = await this.ddb.send(new QueryCommand(expression));
+    const queryRes = await this.ddb.send(new QueryCommand(expression));
+    const _res = {
+      ...queryRes,
+      Items: queryRes.Items?.filter(
+        (item) =>
+          !this.mapper.isExpired(item) &&
+          (this._includeDeleted || !this.mapper.isDeleted(item))
+      ),
+    };
     const res = {
       ..._res,
       Items: (await Promise.all(
         (_res.Items || []).map((item) => {
-          return this.parseAndMigrate(item).catch((error) => {
+          const select = this._select;
+          const parsed = select
+            ? Promise.resolve().then(() =>
+                this.mapper.pickedParse(item, select, "output")
+              )
+            : this.parseAndMigrate(item);
+          return parsed.catch((error) => {
             if (parseExceptionBehavior === "throw") {
               throw error;
             }
@@ -137,7 +354,8 @@ export class IndexQueryBuilder<Src extends object> {
           ? [this.mapper.getHookResultInfo(this.mapper.parseId(Item), Item)]
           : []
       ) ?? [];
-    if (this.mapper.args.dataLoader) {
+    // projected items are partial, so they must not be cached as whole items
+    if (this.mapper.args.dataLoader && !this._select) {
       for (const result of hookInfo) {
         this.mapper.args.dataLoader.clear(result).prime(result, {
           Item: result.Item || undefined,
@@ -151,11 +369,137 @@ export class IndexQueryBuilder<Src extends object> {
       hasNextPage: !!res.LastEvaluatedKey,
       encodeCursor: this.encodeCursor,
       lastCursor: res.LastEvaluatedKey
-        ? encodeFromKeys(res.LastEvaluatedKey)
+        ? this.mapper.encodeCursor(res.LastEvaluatedKey)
         : undefined,
     });
   }
 
+  /**
+   * Counts the items matching the query and its filters using Select COUNT,
+   * following every page.  Items are not fetched, so the count is
+   * not limited by limit()
+   *
+   * @example
+   *    const notes = await noteRepo.query("owner").where({ owner }).count();
+   */
+  async count(): Promise<number> {
+    this.assertCursorMatchesQuery();
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { Limit, ...expression } = this.builder.select([]).build();
+    const hidden = this.getHiddenItemsFilter();
+    const input = {
+      ...expression,
+      Select: "COUNT" as const,
+      FilterExpression: joinConditions(
+        expression.FilterExpression,
+        hidden.FilterExpression
+      ),
+      ExpressionAttributeNames: {
+        ...expression.ExpressionAttributeNames,
+        ...hidden.ExpressionAttributeNames,
+      },
+      ExpressionAttributeValues: {
+        ...expression.ExpressionAttributeValues,
+        ...hidden.ExpressionAttributeValues,
+      },
+    };
+    if (Object.keys(input.ExpressionAttributeValues).length === 0) {
+      delete (input as Partial<typeof input>).ExpressionAttributeValues;
+    }
+
+    let count = 0;
+    let ExclusiveStartKey = input.ExclusiveStartKey;
+    do {
+      const res = await this.ddb.send(
+        new QueryCommand({ ...input, ExclusiveStartKey })
+      );
+      count += res.Count ?? 0;
+      ExclusiveStartKey = res.LastEvaluatedKey;
+    } while (ExclusiveStartKey);
+    return count;
+  }
+
+  /**
+   * exec hides soft deleted and expired items after fetching them,
+   * count cannot so it filters them out with this FilterExpression
+   */
+  private getHiddenItemsFilter() {
+    const conditions: string[] = [];
+    const ExpressionAttributeNames: Record<string, string> = {};
+    const ExpressionAttributeValues: Record<string, number> = {};
+    const deletedAttribute = this.mapper.getSoftDeleteAttribute();
+    if (deletedAttribute && !this._includeDeleted) {
+      conditions.push("attribute_not_exists(#deletedAt)");
+      ExpressionAttributeNames["#deletedAt"] = deletedAttribute;
+    }
+    const { ttl } = this.mapper.args;
+    if (ttl?.hideExpired) {
+      conditions.push("attribute_not_exists(#ttl) OR #ttl > :now");
+      ExpressionAttributeNames["#ttl"] = ttl.attribute;
+      ExpressionAttributeValues[":now"] = Math.floor(Date.now() / 1000);
+    }
+    return {
+      FilterExpression: joinConditions(...conditions),
+      ExpressionAttributeNames,
+      ExpressionAttributeValues,
+    };
+  }
+
+  /**
+   * Executes the query and returns a Relay style connection.  Pages
+   * forwards with first and after, or backwards with last and before by
+   * querying in the opposite sort order.  Every edge has a cursor, so
+   * select() must include the key fields of the index
+   *
+   * @example
+   *    const { edges, pageInfo } = await query.paginate({ first: 10 });
+   *    const previous = await query.paginate({
+   *      last: 10,
+   *      before: pageInfo.startCursor,
+   *    });
+   */
+  async paginate({ first, after, last, before }: PaginateArgs = {}): Promise<
+    Connection<Src>
+  > {
+    const backwards = last !== undefined || before !== undefined;
+    if (backwards && (first !== undefined || after !== undefined)) {
+      throw new STDError({
+        name: "single-table-Error",
+        message:
+          "paginate pages forwards with first and after or backwards with last and before, not both",
+        meta: { first, after, last, before },
+      });
+    }
+
+    const cursor = backwards ? before : after;
+    let query = cursor ? this.cursor(cursor) : this.clone();
+    const count = backwards ? last : first;
+    if (count !== undefined) {
+      query = query.limit(count);
+    }
+    if (backwards) {
+      query = query.sort(
+        this.builder.data.sortDirection === "asc" ? "desc" : "asc"
+      );
+    }
+
+    const page = await query.exec();
+    const items = backwards ? [...page.Items].reverse() : page.Items;
+    const edges = items.map((node) => ({
+      node,
+      cursor: this.encodeCursor(node),
+    }));
+    return {
+      edges,
+      pageInfo: {
+        hasNextPage: backwards ? !!before : page.hasNextPage,
+        hasPreviousPage: backwards ? page.hasNextPage : !!after,
+        startCursor: edges[0]?.cursor,
+        endCursor: edges[edges.length - 1]?.cursor,
+      },
+    };
+  }
+
   /**
    * Executes the query and returns the first item in the result set.
    * @returns The first item in the result set.
@@ -225,8 +569,118 @@ export class IndexQueryBuilder<Src extends object> {
 
     return this.clone(builder);
   }
+
+  /**
+   * Queries the items whose sort key is between the sort keys of start and
+   * end (inclusive).  start and end must contain the partition key fields
+   * and at least the first sort key field, an end without every sort key
+   * field includes every item whose sort key begins with it
+   *
+   * @example
+   *    // notes of an owner created in january
+   *    noteRepo
+   *      .query("owner")
+   *      .whereBetween(
+   *        { owner, createdAt: "2024-01-01" },
+   *        { owner, createdAt: "2024-01-31" }
+   *      );
+   */
+  whereBetween(start: Partial<Src>, end: Partial<Src>) {
+    const from = this.getSortKeyBound(start);
+    const to = this.getSortKeyBound(end);
+    if (from.pk !== to.pk) {
+      throw new STDError({
+        name: "single-table-Error",
+        message: `whereBetween requires start and end to be in the same partition, received ${from.pk} and ${to.pk}`,
+        meta: { start, end },
+      });
+    }
+    return this.clone(
+      this.builder
+        .where(this.index.pk, "=", from.pk)
+        .where(this.index.sk, "BETWEEN", [
+          from.sk,
+          to.hasEveryField ? to.sk : `${to.sk}${MAX_CHAR}`,
+        ])
+    );
+  }
+
+  /**
+   * Queries the items whose sort key is greater than the sort key of src,
+   * src must contain the partition key fields and at least the first sort
+   * key field.  Without every sort key field, items whose sort key begins
+   * with it are excluded
+   *
+   * @example
+   *    // notes of an owner created after 2024
+   *    noteRepo.query("owner").whereGreaterThan({ owner, createdAt: "2024" });
+   */
+  whereGreaterThan(src: Partial<Src>) {
+    const { pk, sk, hasEveryField } = this.getSortKeyBound(src);
+    return this.clone(
+      this.builder.where(this.index.pk, "=", pk).where(
+        this.index.sk,
+        "BETWEEN",
+        // the upper bound excludes the items of other types in the partition
+        [
+          hasEveryField ? `${sk}${MIN_CHAR}` : `${sk}${MAX_CHAR}`,
+          `${this.mapper.args.typeName}#${MAX_CHAR}`,
+        ]
+      )
+    );
+  }
+
+  /**
+   * Queries the items whose sort key begins with the sort key of src, the
+   * last field of src is matched as a prefix of the field's value.  Values are
+   * encoded with the key codec of their field first, keyCodecs.date() turns
+   * "2024-01" into a complete date, so query a range of dates with whereBetween
+   *
+   * @example
+   *    // notes of an owner created in january, createdAt has no key codec
+   *    noteRepo.query("owner").whereBeginsWith({ owner, createdAt: "2024-01" });
+   */
+  whereBeginsWith(src: Partial<Src>) {
+    const { pk, sk } = this.getSortKeyBound(src, { requireSortKey: false });
+    return this.clone(
+      this.builder
+        .where(this.index.pk, "=", pk)
+        .where(this.index.sk, "BEGINS_WITH", sk)
+    );
+  }
+
+  private getSortKeyBound(src: Partial<Src>, { requireSortKey = true } = {}) {
+    const key = this.mapper.getIndexKey(src as Src, this.index, {
+      partial: true,
+    });
+    const skFields = this.index.fields.slice(
+      this.index.partitionKeyFieldCount || 1
+    );
+    if (requireSortKey && skFields.length > 0 && !hasOwn(src, skFields[0])) {
+      throw new STDError({
+        name: "single-table-Error",
+        message: `A sort key range of index (${this.index.pk}, ${
+          this.index.sk
+        }) requires the field ${skFields[0]}, received ${JSON.stringify(src)}`,
+        meta: { src },
+      });
+    }
+    return {
+      pk: key[this.index.pk],
+      sk: key[this.index.sk],
+      hasEveryField: this.index.fields.every((f) => hasOwn(src, f)),
+    };
+  }
 }
 
+/**
+ * The smallest and largest characters, sort keys are compared by their
+ * UTF-8 bytes so a key followed by MIN_CHAR is the next possible key, and
+ * a key followed by MAX_CHAR follows every key it is a prefix of
+ */
+const MIN_CHAR = "\u0000";
+const MAX_CHAR = "\u{10FFFF}";
+
 function hasOwn(thing: object, field: string) {
   if (typeof thing === "object") {
     return Object.prototype.hasOwnProperty.call(thing, field);
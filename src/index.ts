@@ -2,13 +2,24 @@ import { isSingleTableDynamoError } from "./utils/errors";
 
 export * from "./utils/AttributeRegistry";
 export * from "./index-query-builder";
+export * from "./scan-builder";
 export * from "./mapper";
 export * from "./query-builder";
+export * from "./condition-expression";
+export * from "./key-codec";
+export * from "./cursor-codec";
+export * from "./update-expression";
 export * from "./repository";
 export * from "./batch-args-handler";
+export * from "./transact-args-handler";
+export * from "./transaction";
+export * from "./relationships";
+export * from "./collection";
 export * from "./batch-write";
 export * from "./batch-get";
 export * from "./data-loader";
 export * from "./table-config";
+export * from "./table";
+export * from "./table-definition";
 
 export { isSingleTableDynamoError };
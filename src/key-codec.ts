@@ -0,0 +1,112 @@
+/**
+ * Encodes the value of a field in the composite keys of an index
+ * and decodes it back.  Encoded values must not contain "#",
+ * the separator of the fields of a key
+ */
+export type KeyCodec<T = unknown> = {
+  encode: (value: T) => string;
+  decode: (encoded: string) => T;
+};
+
+/**
+ * Fields without a codec are written as is, which keeps the keys of existing items
+ */
+export const rawKeyCodec: KeyCodec = {
+  // stringifies values the way Array.join does
+  encode: (value) => (value === undefined || value === null ? "" : `${value}`),
+  decode: (encoded) => encoded,
+};
+
+/**
+ * Key codecs whose encoded values sort in the same order as the values,
+ * so sort key ranges and sort() work as expected
+ *
+ * @example
+ *    new Repository({
+ *      ...
+ *      keyCodecs: {
+ *        stars: keyCodecs.number(),
+ *        createdAt: keyCodecs.date(),
+ *        title: keyCodecs.string(),
+ *      },
+ *    });
+ */
+export const keyCodecs = {
+  /**
+   * Zero pads numbers to a fixed number of integer digits (defaults to 16,
+   * enough for every safe integer) and prefixes them with "n" if they are
+   * negative or "p" otherwise.  The digits of negative numbers are
+   * complemented so they sort in reverse
+   */
+  number({ digits = 16 }: { digits?: number } = {}): KeyCodec<number> {
+    return {
+      encode(value) {
+        const abs = Math.abs(value);
+        const str = `${abs}`;
+        if (
+          !Number.isFinite(value) ||
+          str.includes("e") ||
+          abs >= 10 ** digits
+        ) {
+          throw new Error(
+            `SingleTableKeyCodecError: ${value} cannot be encoded as a key with ${digits} digits`
+          );
+        }
+        const [integer, fraction] = str.split(".");
+        const padded = [integer.padStart(digits, "0"), fraction]
+          .filter(Boolean)
+          .join(".");
+        // "~" sorts after the digits and ".", so a shorter fraction
+        // of a negative number sorts after a longer one
+        return value < 0 ? `n${complement(padded)}~` : `p${padded}`;
+      },
+      decode(encoded) {
+        if (encoded.startsWith("n")) {
+          return -Number(complement(encoded.slice(1, -1)));
+        }
+        return Number(encoded.slice(1));
+      },
+    };
+  },
+  date: dateCodec,
+  boolean(): KeyCodec<boolean> {
+    return {
+      encode: (value) => (value ? "1" : "0"),
+      decode: (encoded) => encoded === "1",
+    };
+  },
+  /**
+   * Escapes "#" (and "%", the escape character) so strings
+   * containing them do not corrupt the key
+   */
+  string(): KeyCodec<string> {
+    return {
+      encode: (value) => value.replace(/%/g, "%25").replace(/#/g, "%23"),
+      decode: (encoded) =>
+        encoded.replace(/%2[35]/g, (escaped) =>
+          escaped === "%23" ? "#" : "%"
+        ),
+    };
+  },
+};
+
+/**
+ * Encodes dates (or anything the Date constructor accepts) as ISO 8601
+ * strings in UTC.  Decodes to a Date, or to the ISO string when the
+ * field is stored as a string
+ */
+function dateCodec(): KeyCodec<Date>;
+function dateCodec(options: { decodeAs: "string" }): KeyCodec<string>;
+function dateCodec({
+  decodeAs = "date",
+}: { decodeAs?: "date" | "string" } = {}): KeyCodec<Date> | KeyCodec<string> {
+  const encode = (value: Date | string | number) =>
+    new Date(value).toISOString();
+  return decodeAs === "string"
+    ? { encode, decode: (encoded: string) => encoded }
+    : { encode, decode: (encoded: string) => new Date(encoded) };
+}
+
+function complement(digits: string) {
+  return digits.replace(/\d/g, (d) => `${9 - Number(d)}`);
+}
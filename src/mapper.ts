@@ -8,16 +8,51 @@ import {
   PutCommandOutput,
 } from "@aws-sdk/lib-dynamodb";
 import { GetRequest } from "./batch-get";
+import { BatchOptions } from "./batch-write";
 import { Repository } from "./repository";
 import { UnwrapPromise } from "./utils/UnwrapPromise";
 import { removeUndefined } from "./utils/removeUndefined";
 import { takeWhile } from "./utils/takeWhile";
-import { STDError } from "./utils/errors";
+import { STDError, isSingleTableDynamoError } from "./utils/errors";
 import { z } from "zod";
 import { hasProperty } from "./utils/hasProperty";
+import { AttributeRegistry } from "./utils/AttributeRegistry";
+import { Condition, buildConditionExpression } from "./condition-expression";
+import {
+  buildUpdateExpression,
+  splitUpdateExpression,
+  updateExpressionHelpers,
+} from "./update-expression";
+import { getDDBUpdateExpression } from "./utils/getDDBUpdateExpression";
+import {
+  getConditionExpression,
+  joinConditions,
+} from "./utils/getKeyCondition";
+import { omit } from "./utils/omit";
+import { pick } from "./utils/pick";
+import { KeyCodec, rawKeyCodec } from "./key-codec";
+import {
+  CursorCodec,
+  base64CursorCodec,
+  invalidCursorError,
+} from "./cursor-codec";
+
+const HISTORY_PREFIX = "$history";
+/**
+ * Incremented by every write recorded with history, so a write whose
+ * snapshot was read before another write landed can be detected and retried
+ */
+const HISTORY_REVISION = "$historyRevision";
 
 export type IndexField<T> = Extract<keyof T, string>;
 
+export type NumberField<T> = Extract<
+  {
+    [K in keyof T]-?: T[K] extends number | null | undefined ? K : never;
+  }[keyof T],
+  string
+>;
+
 export type IndexBase<T, Field extends IndexField<T> = any> = {
   /**
    * The fields to be indexed.  The first <partitionKeyFieldCount ?? 1> are used for the partition key
@@ -32,6 +67,12 @@ export type IndexBase<T, Field extends IndexField<T> = any> = {
    * partitionKeyFields
    */
   partitionKeyFieldCount?: number;
+  /**
+   * Prefix of the partition key, defaults to the typeName.  Give the indexes
+   * of several repositories the same prefix to store their items in the same
+   * item collection, so they can be queried together with collection()
+   */
+  partitionKeyPrefix?: string;
 };
 
 type SecondaryIndex<T> = {
@@ -129,8 +170,108 @@ export type RepositoryArgs<
     SecondaryIndexTag,
     IndexBase<T> & SecondaryIndex<T>
   >;
+  /**
+   * Encodes the values of fields in the keys of every index, fields
+   * without a codec are written as is.  Codecs are used when writing,
+   * by where() and by cursors, so they cannot be changed without
+   * rewriting the keys of existing items
+   *
+   * @example
+   *    keyCodecs: { createdAt: keyCodecs.date(), stars: keyCodecs.number() }
+   */
+  keyCodecs?: { [K in IndexField<T>]?: KeyCodec<T[K]> };
+  /**
+   * How putMany and deleteMany retry unprocessed items and
+   * how many chunks of 25 items they write at the same time
+   */
+  batchOptions?: BatchOptions;
+  /**
+   * Encodes the cursors of queries and scans, defaults to base64 encoded
+   * JSON.  Use signedCursorCodec when cursors are given to untrusted callers
+   */
+  cursorCodec?: CursorCodec;
+  /**
+   * A numeric field used for optimistic locking.  When set, every write
+   * (including putMany and soft deletes) increments the field and writes of
+   * existing items (put with mode "update", merge, and mutate or putExpression
+   * when they are passed the version) fail with a `single-table-VersionConflictError`
+   * if the stored version does not match the version that was read.
+   * Batch writes cannot be conditional, so putMany does not check the version
+   */
+  versionField?: NumberField<z.infer<Schema>>;
+  /**
+   * Stamps a created and updated timestamp field on every write.
+   * `true` uses the fields "createdAt" and "updatedAt", set a field
+   * to false to disable it.  The fields should be declared (optional)
+   * in the schema and can be used as fields of secondary indexes.
+   *
+   * put and putMany replace the whole item, so unless createdAt is passed in
+   * (as merge does) they read the createdAt of the stored item to keep it.
+   * mutate and putExpression only set it if it does not already exist
+   */
+  timestamps?:
+    | boolean
+    | {
+        createdAt?: IndexField<z.infer<Schema>> | false;
+        updatedAt?: IndexField<z.infer<Schema>> | false;
+        /**
+         * defaults to the current time as an ISO 8601 string
+         */
+        now?: () => string | number;
+      };
+  /**
+   * Writes an epoch seconds time to live attribute with every put.
+   * DynamoDB deletes expired items lazily (up to a few days after they expire),
+   * set hideExpired to make get and query treat expired items as deleted
+   */
+  ttl?: {
+    /**
+     * The attribute configured as the table's TTL attribute
+     */
+    attribute: string;
+    hideExpired?: boolean;
+  } & (
+    | {
+        /**
+         * Number of seconds after each put that the item expires
+         */
+        duration: number;
+      }
+    | {
+        /**
+         * Returns when the item expires, either a Date or epoch seconds.
+         * The item does not expire if undefined is returned
+         */
+        expiresAt: (item: z.infer<Schema>) => Date | number | undefined;
+      }
+  );
+  /**
+   * When set, delete marks the item with a deleted at attribute
+   * (defaults to "deletedAt") and removes its secondary index keys
+   * instead of deleting it.  get and query exclude deleted items unless
+   * asked not to, repository.restore undeletes an item and
+   * repository.purge deletes it for good.  put with mode "create"
+   * treats deleted items as absent and replaces them
+   */
+  softDelete?:
+    | boolean
+    | {
+        attribute?: string;
+      };
+  /**
+   * When set, put, putExpression, merge, mutate and delete read the item first
+   * and write a snapshot of it in the same transaction as the write.  The write is
+   * conditioned on the item not having changed since it was read, and is
+   * retried otherwise.  Snapshots are stored in the item's partition and are
+   * returned by repository.history.  putMany and deleteMany write their items
+   * one by one instead of in batches.  Writes made with repository.batch or
+   * repository.transact are not recorded
+   */
+  history?: boolean;
 };
 
+export type HistoryAction = "put" | "mutate" | "delete";
+
 export class Mapper<
   Schema extends z.AnyZodObject = z.AnyZodObject,
   Output extends object = z.infer<Schema>,
@@ -305,7 +446,160 @@ export class Mapper<
     options: { assert?: boolean } = {}
   ): Output & Record<string, string> {
     const keys = this.getIndexKeys(thing, { assert: !!options.assert });
-    return Object.assign({}, thing, keys);
+    return Object.assign({}, thing, keys, this.getTtlAttribute(thing));
+  }
+
+  /**
+   * Returns the ttl attribute (in epoch seconds) to write for thing
+   */
+  getTtlAttribute(thing: Output): Record<string, number> {
+    const { ttl } = this.args;
+    if (!ttl) {
+      return {};
+    }
+    const expiresAt =
+      "duration" in ttl
+        ? Math.floor(Date.now() / 1000) + ttl.duration
+        : ttl.expiresAt(thing);
+    if (expiresAt === undefined) {
+      return {};
+    }
+    return {
+      [ttl.attribute]:
+        expiresAt instanceof Date
+          ? Math.floor(expiresAt.getTime() / 1000)
+          : Math.floor(expiresAt),
+    };
+  }
+
+  getSoftDeleteAttribute(): string | undefined {
+    const { softDelete } = this.args;
+    if (!softDelete) {
+      return undefined;
+    }
+    return (
+      (softDelete === true ? undefined : softDelete.attribute) ?? "deletedAt"
+    );
+  }
+
+  /**
+   * True if softDelete is enabled and the raw item has been soft deleted
+   */
+  isDeleted(rawItem: Record<string, unknown>) {
+    const attribute = this.getSoftDeleteAttribute();
+    return !!attribute && rawItem[attribute] !== undefined;
+  }
+
+  /**
+   * The key attributes of every secondary index, excluding
+   * any shared with the primary index
+   */
+  getSecondaryIndexKeyAttributes(): string[] {
+    const { pk, sk } = this.args.primaryIndex;
+    const attributes = this.getIndexes()
+      .slice(1)
+      .flatMap((index) => [index.pk, index.sk]);
+    return [...new Set(attributes)].filter(
+      (attribute): attribute is string =>
+        !!attribute && attribute !== pk && attribute !== sk
+    );
+  }
+
+  /**
+   * The sort key prefix of every history snapshot of the item with id
+   */
+  getHistoryKeyPrefix(id: Id | Output): string {
+    return `${HISTORY_PREFIX}#${this.getKey(id)[this.args.primaryIndex.sk]}#`;
+  }
+
+  getHistoryRevisionAttribute() {
+    return HISTORY_REVISION;
+  }
+
+  /**
+   * The history revision of a raw item, 0 if it was never written with history
+   */
+  getHistoryRevision(rawItem: Record<string, unknown>): number {
+    const revision = rawItem[HISTORY_REVISION];
+    return typeof revision === "number" ? revision : 0;
+  }
+
+  /**
+   * The update actions that increment the history revision of an item,
+   * empty when the repository does not use history
+   */
+  getHistoryRevisionActions(): Record<string, [symbol, unknown?]> {
+    return this.args.history
+      ? { [HISTORY_REVISION]: updateExpressionHelpers.add(1) }
+      : {};
+  }
+
+  /**
+   * Returns an immutable snapshot of a raw item, stored under the item's partition
+   * with a sort key of the history prefix followed by the time it was recorded
+   */
+  getHistorySnapshot(
+    rawItem: Record<string, unknown>,
+    action: HistoryAction
+  ): Record<string, unknown> {
+    const { pk } = this.args.primaryIndex;
+    const recordedAt = new Date().toISOString();
+    const indexKeys = this.getIndexes().flatMap((index) => [
+      index.pk,
+      index.sk,
+    ]);
+    return {
+      [pk]: rawItem[pk],
+      [this.args.primaryIndex.sk]: `${this.getHistoryKeyPrefix(
+        rawItem as Output
+      )}${recordedAt}#${Math.random().toString(36).slice(2, 8)}`,
+      item: omit(rawItem, [...indexKeys, HISTORY_REVISION]),
+      recordedAt,
+      action,
+    };
+  }
+
+  /**
+   * True if the sort key of the raw item for index was written by this mapper,
+   * used to tell apart the items of an item collection
+   */
+  isOwnItem(rawItem: Record<string, unknown>, index: IndexBase<Output>) {
+    const sk = rawItem[index.sk];
+    return (
+      typeof sk === "string" &&
+      (sk === this.args.typeName || sk.startsWith(`${this.args.typeName}#`))
+    );
+  }
+
+  /**
+   * True if ttl.hideExpired is set and the ttl attribute of the
+   * raw item (as stored in dynamodb) is in the past
+   */
+  isExpired(rawItem: Record<string, unknown>, now = Date.now()) {
+    const { ttl } = this.args;
+    if (!ttl?.hideExpired) {
+      return false;
+    }
+    const expiresAt = rawItem[ttl.attribute];
+    return typeof expiresAt === "number" && expiresAt * 1000 <= now;
+  }
+
+  /**
+   * The attributes to project when only fields are selected.  The id fields
+   * and the soft delete and ttl attributes are always projected so that
+   * hooks receive the item id and hidden items stay hidden
+   */
+  getProjectionAttributes(fields: (keyof Output)[]): string[] {
+    const { primaryIndex, ttl } = this.args;
+    const softDeleteAttribute = this.getSoftDeleteAttribute();
+    return [
+      ...new Set([
+        ...(fields as string[]),
+        ...(primaryIndex.fields as string[]),
+        ...(softDeleteAttribute ? [softDeleteAttribute] : []),
+        ...(ttl?.hideExpired ? [ttl.attribute] : []),
+      ]),
+    ];
   }
 
   /**
@@ -357,28 +651,356 @@ export class Mapper<
       }
     });
 
-    function stringifyField(fieldName: string) {
-      return thing[fieldName as keyof IdOrT];
-    }
+    const stringifyField = (fieldName: string) =>
+      this.getKeyCodec(fieldName).encode(thing[fieldName as keyof IdOrT]);
 
     return {
-      [index.pk]: [this.args.typeName, ...pkFields.map(stringifyField)].join(
-        "#"
-      ),
+      [index.pk]: [
+        index.partitionKeyPrefix ?? this.args.typeName,
+        ...pkFields.map(stringifyField),
+      ].join("#"),
       [index.sk]: [this.args.typeName, ...skFields.map(stringifyField)].join(
         "#"
       ),
     };
   }
 
-  dataLoaderClear(id: Id) {
+  encodeCursor(key: object): string {
+    return (this.args.cursorCodec ?? base64CursorCodec).encode(key);
+  }
+
+  /**
+   * Decodes a cursor, throwing a `single-table-InvalidCursorError`
+   * if it was not encoded by the cursorCodec
+   */
+  decodeCursor(cursor: string): object {
+    const codec = this.args.cursorCodec ?? base64CursorCodec;
+    let decoded: unknown;
+    try {
+      decoded = codec.decode(cursor);
+    } catch (e) {
+      if (isSingleTableDynamoError(e)) {
+        throw e;
+      }
+      throw invalidCursorError("the cursor could not be decoded", e);
+    }
+    if (!decoded || typeof decoded !== "object") {
+      throw invalidCursorError("the cursor could not be decoded");
+    }
+    return decoded;
+  }
+
+  /**
+   * Throws a `single-table-InvalidCursorError` unless cursor is the key
+   * of an item in index, and in partition when it is given.  Keys of a
+   * secondary index also contain the primary key of the item
+   */
+  assertCursorMatchesIndex(
+    cursor: object,
+    index: IndexBase<Output>,
+    partition?: string
+  ) {
+    const { primaryIndex, typeName } = this.args;
+    const expected = [
+      ...new Set([primaryIndex.pk, primaryIndex.sk, index.pk, index.sk]),
+    ].sort();
+    const entries = Object.entries(cursor);
+    const keys = entries.map(([key]) => key).sort();
+    if (
+      keys.join() !== expected.join() ||
+      entries.some(([, value]) => typeof value !== "string")
+    ) {
+      throw invalidCursorError(
+        `it is not a cursor of index (${index.pk}, ${index.sk}) of ${typeName}`,
+        undefined,
+        { typeName, keys, expected }
+      );
+    }
+    const cursorPartition = (cursor as Record<string, string>)[index.pk];
+    if (partition !== undefined && cursorPartition !== partition) {
+      throw invalidCursorError(
+        `it is a cursor of another partition than the one being queried`,
+        undefined,
+        { typeName, partition, cursorPartition }
+      );
+    }
+  }
+
+  getKeyCodec(field: string): KeyCodec {
+    return (
+      (this.args.keyCodecs as Record<string, KeyCodec> | undefined)?.[field] ??
+      rawKeyCodec
+    );
+  }
+
+  /**
+   * Decodes the fields of an index key (as returned by getIndexKey
+   * or found in a cursor) back into the values of the fields.
+   * Fields missing from a partial key are omitted
+   */
+  decodeIndexKey(
+    key: Record<string, string>,
+    index: IndexBase<Output>
+  ): Partial<Output> {
+    const numPkFields = index.partitionKeyFieldCount || 1;
+    const pkFields = index.fields.slice(0, numPkFields);
+    const skFields = index.fields.slice(numPkFields);
+    const decode = (fields: string[], value?: string) =>
+      // the first part of a key is its prefix
+      (value?.split("#").slice(1) ?? []).flatMap((part, i) =>
+        i < fields.length
+          ? [[fields[i], this.getKeyCodec(fields[i]).decode(part)]]
+          : []
+      );
+    return Object.fromEntries([
+      ...decode(pkFields, key[index.pk]),
+      ...decode(skFields, key[index.sk]),
+    ]) as Partial<Output>;
+  }
+
+  /**
+   * The condition of a put with mode, a put with mode "create"
+   * may replace an item that has been soft deleted
+   */
+  getPutCondition(
+    mode: "create" | "upsert" | "update",
+    registry: AttributeRegistry
+  ): string | undefined {
+    const condition = getConditionExpression(
+      [this.args.primaryIndex.pk, this.args.primaryIndex.sk],
+      mode
+    );
+    const softDeleteAttribute = this.getSoftDeleteAttribute();
+    return mode === "create" && softDeleteAttribute
+      ? `(${condition}) OR attribute_exists(${registry.key(
+          softDeleteAttribute
+        )})`
+      : condition;
+  }
+
+  getVersion(thing: object): number | undefined {
+    if (!this.args.versionField) {
+      return undefined;
+    }
+    const version = (thing as Record<string, unknown>)[this.args.versionField];
+    return typeof version === "number" ? version : undefined;
+  }
+
+  /**
+   * Returns a copy of thing with its versionField incremented,
+   * or thing itself when versionField is not configured
+   */
+  withIncrementedVersion<T extends object>(thing: T): T {
+    if (!this.args.versionField) {
+      return thing;
+    }
+    return {
+      ...thing,
+      [this.args.versionField]: (this.getVersion(thing) ?? 0) + 1,
+    };
+  }
+
+  /**
+   * Returns a condition requiring the stored version to equal the version of thing,
+   * or undefined when versionField is not configured
+   */
+  getVersionCondition(
+    thing: object,
+    registry: AttributeRegistry
+  ): string | undefined {
+    if (!this.args.versionField) {
+      return undefined;
+    }
+    const version = this.getVersion(thing);
+    const field = registry.key(this.args.versionField);
+    return version === undefined
+      ? `attribute_not_exists(${field})`
+      : `${field} = ${registry.value(version)}`;
+  }
+
+  /**
+   * Builds the UpdateItem arguments used to mutate an existing item,
+   * that has not been soft deleted.
+   * Index keys are only derived from the fields that are being SET, fields
+   * with update actions (see update-expression.ts) are left untouched.
+   */
+  getMutateArgs(
+    _updates: Record<string, unknown>,
+    condition?: Condition<Output>
+  ) {
+    const { values, actions } = splitUpdateExpression(
+      this.withTimestampExpressions(_updates)
+    );
+    const updates = this.partialParse(values, "input");
+    const version = this.getVersion(updates);
+    const actionFields = Object.keys(actions);
+    const decoratedUpdates = {
+      ...this.partialDecorateWithKeys(
+        omit(
+          version === undefined
+            ? updates
+            : this.withIncrementedVersion(updates),
+          actionFields
+        )
+      ),
+      ...pick(updates, ...(actionFields as (keyof Output)[])),
+    };
+    const withoutPrimaryKeys = omit(decoratedUpdates, [
+      this.args.primaryIndex.pk,
+      this.args.primaryIndex.sk,
+    ]);
+
+    const registry = new AttributeRegistry();
+    const softDeleteAttribute = this.getSoftDeleteAttribute();
+    const ConditionExpression = joinConditions(
+      getConditionExpression(
+        [this.args.primaryIndex.pk, this.args.primaryIndex.sk],
+        "update"
+      ),
+      // soft deleted items are mutated as if they did not exist
+      softDeleteAttribute &&
+        `attribute_not_exists(${registry.key(softDeleteAttribute)})`,
+      version === undefined
+        ? undefined
+        : this.getVersionCondition(updates, registry),
+      condition && buildConditionExpression(condition, registry)
+    ) as string;
+
+    return {
+      version,
+      input: {
+        TableName: this.args.tableName,
+        Key: this.getKey(_updates as any),
+        ...getDDBUpdateExpression(withoutPrimaryKeys, {
+          registry,
+          actions: {
+            ...actions,
+            // without a version to compare against, the version is still incremented
+            ...(this.args.versionField &&
+              version === undefined && {
+                [this.args.versionField]: updateExpressionHelpers.add(1),
+              }),
+            ...this.getHistoryRevisionActions(),
+          },
+        }),
+        ConditionExpression,
+      },
+    };
+  }
+
+  /**
+   * The created timestamp field, undefined when it is not stamped
+   */
+  getCreatedAtField(): string | undefined {
+    return this.getTimestampConfig()?.createdAt;
+  }
+
+  /**
+   * Builds the UpdateItem arguments used to soft delete an existing item,
+   * which mark it deleted and remove its secondary index keys
+   */
+  getMarkDeletedArgs(id: Id, condition?: Condition<Output>) {
+    const registry = new AttributeRegistry();
+    const UpdateExpression = buildUpdateExpression(
+      { [this.getSoftDeleteAttribute() as string]: new Date().toISOString() },
+      {
+        ...Object.fromEntries(
+          this.getSecondaryIndexKeyAttributes().map((key) => [
+            key,
+            updateExpressionHelpers.remove(),
+          ])
+        ),
+        ...(this.args.versionField && {
+          [this.args.versionField]: updateExpressionHelpers.add(1),
+        }),
+        ...this.getHistoryRevisionActions(),
+      },
+      registry
+    );
+    const ConditionExpression = joinConditions(
+      // don't create an item that does not exist
+      getConditionExpression(
+        [this.args.primaryIndex.pk, this.args.primaryIndex.sk],
+        "update"
+      ),
+      condition && buildConditionExpression(condition, registry)
+    );
+    return {
+      TableName: this.args.tableName,
+      Key: this.getKey(id),
+      UpdateExpression,
+      ConditionExpression,
+      ...registry.get(),
+    };
+  }
+
+  private getTimestampConfig() {
+    const { timestamps } = this.args;
+    if (!timestamps) {
+      return null;
+    }
+    const config = timestamps === true ? {} : timestamps;
+    return {
+      createdAt:
+        config.createdAt === false
+          ? undefined
+          : config.createdAt || "createdAt",
+      updatedAt:
+        config.updatedAt === false
+          ? undefined
+          : config.updatedAt || "updatedAt",
+      now: config.now || (() => new Date().toISOString()),
+    };
+  }
+
+  /**
+   * Sets the updated timestamp field of thing and the
+   * created timestamp field if it is not already present
+   */
+  withTimestamps<T extends object>(thing: T): T {
+    const config = this.getTimestampConfig();
+    if (!config) {
+      return thing;
+    }
+    const now = config.now();
+    return {
+      ...thing,
+      ...(config.createdAt && {
+        [config.createdAt]:
+          (thing as Record<string, unknown>)[config.createdAt] ?? now,
+      }),
+      ...(config.updatedAt && { [config.updatedAt]: now }),
+    };
+  }
+
+  /**
+   * Like withTimestamps, but for update expressions: the created
+   * timestamp is only set if the stored item does not have one
+   */
+  withTimestampExpressions<T extends object>(expr: T): T {
+    const config = this.getTimestampConfig();
+    if (!config) {
+      return expr;
+    }
+    const now = config.now();
+    return {
+      ...expr,
+      ...(config.createdAt &&
+        !hasProperty(expr, config.createdAt as keyof T) && {
+          [config.createdAt]: updateExpressionHelpers.ifNotExists(now),
+        }),
+      ...(config.updatedAt && { [config.updatedAt]: now }),
+    };
+  }
+
+  dataLoaderClear(id: Output | Id) {
     if (this.args.dataLoader) {
       const key = this.getGetDocArg(id);
       this.args.dataLoader.clear(key);
     }
   }
 
-  dataLoaderPrime(id: Id, rawResult: object | null) {
+  dataLoaderPrime(id: Output | Id, rawResult: object | null) {
     if (this.args.dataLoader) {
       const key = this.getGetDocArg(id);
       const res = this.getGetDocResult(id, rawResult);
@@ -393,7 +1015,10 @@ export class Mapper<
     };
   }
 
-  private getGetDocResult(id: Id, rawResult: object | null): GetDocResult {
+  private getGetDocResult(
+    id: Output | Id,
+    rawResult: object | null
+  ): GetDocResult {
     return {
       $metadata: {} as any,
       Item: rawResult || undefined,
@@ -407,7 +1032,7 @@ export class Mapper<
     };
   }
 
-  getHookResultInfo(id: Id, rawResult: object | null): RawResult {
+  getHookResultInfo(id: Output | Id, rawResult: object | null): RawResult {
     return {
       ...this.getHookKeyInfo(id),
       Item: rawResult,
@@ -1,4 +1,6 @@
+import { Condition, buildConditionExpression } from "./condition-expression";
 import { AttributeRegistry } from "./utils/AttributeRegistry";
+import { joinConditions } from "./utils/getKeyCondition";
 
 export type Operator =
   | "<"
@@ -10,10 +12,14 @@ export type Operator =
   | "BETWEEN"
   | "IN"
   | "BEGINS_WITH";
+type Value = string | number;
 type Where = {
   fieldName: string;
   operator: Operator;
-  value: string | number;
+  /**
+   * BETWEEN takes the [lower, upper] bounds and IN the list of values
+   */
+  value: Value | Value[];
 };
 
 /**
@@ -23,6 +29,10 @@ type Where = {
 export type QueryData = {
   keyConditions: Where[];
   filterExpression: Where[];
+  /**
+   * Filters added with filterWhere, joined with AND to filterExpression
+   */
+  filterConditions?: Condition<any>[];
   sortDirection: "asc" | "desc";
   limit: number;
   indexName?: string;
@@ -31,6 +41,11 @@ export type QueryData = {
    * The key of the last fetched object
    */
   cursor?: object;
+  /**
+   * The attributes to fetch, every attribute is fetched when undefined
+   */
+  projection?: string[];
+  consistentRead?: boolean;
 };
 
 export class QueryBuilder {
@@ -71,7 +86,15 @@ export class QueryBuilder {
     return this.cloneWith({ cursor });
   }
 
-  where(key: string, op: Operator, value: string | number) {
+  consistentRead(consistentRead = true) {
+    return this.cloneWith({ consistentRead });
+  }
+
+  select(attributes: string[]) {
+    return this.cloneWith({ projection: attributes });
+  }
+
+  where(key: string, op: Operator, value: Value | Value[]) {
     const keyConditions = [
       ...this.data.keyConditions,
       {
@@ -83,7 +106,7 @@ export class QueryBuilder {
     return this.cloneWith({ keyConditions });
   }
 
-  filter(key: string, op: Operator, value: string | number) {
+  filter(key: string, op: Operator, value: Value | Value[]) {
     const filterExpression = [
       ...this.data.filterExpression,
       {
@@ -102,64 +125,88 @@ export class QueryBuilder {
       ScanIndexForward: this.data.sortDirection === "asc",
       Limit: this.data.limit || 20,
       ...(this.data.indexName && { IndexName: this.data.indexName }),
+      ...(this.data.consistentRead && { ConsistentRead: true }),
       ...this._buildConditionExpression(registry),
       ...this._buildCursor(),
       ...this._buildFilterExpression(registry),
+      ...this._buildProjectionExpression(registry),
       ...registry.get(),
     };
   }
 
-  _buildFilterExpression(attrs: AttributeRegistry): {
-    FilterExpression?: string;
+  _buildProjectionExpression(attrs: AttributeRegistry): {
+    ProjectionExpression?: string;
   } {
-    const FilterExpression: string[] = [];
-
-    if (this.data.filterExpression.length === 0) {
+    if (!this.data.projection?.length) {
       return {};
     }
-    for (const filter of this.data.filterExpression) {
-      if (filter.operator === "BEGINS_WITH") {
-        FilterExpression.push(
-          `begins_with(${attrs.key(filter.fieldName)}, ${attrs.value(
-            filter.value
-          )})`
-        );
-      } else {
-        FilterExpression.push(
-          `${attrs.key(filter.fieldName)} ${filter.operator} ${attrs.value(
-            filter.value
-          )}`
-        );
-      }
-    }
-
     return {
-      FilterExpression: FilterExpression.join(" and "),
+      ProjectionExpression: this.data.projection
+        .map((attribute) => attrs.key(attribute))
+        .join(", "),
     };
   }
 
+  filterWhere(condition: Condition<any>) {
+    return this.cloneWith({
+      filterConditions: [...(this.data.filterConditions || []), condition],
+    });
+  }
+
+  _buildFilterExpression(attrs: AttributeRegistry): {
+    FilterExpression?: string;
+  } {
+    const filters = this.data.filterExpression
+      .map((filter) => this._buildCondition(filter, attrs))
+      .join(" and ");
+    const conditions = (this.data.filterConditions || []).map((condition) =>
+      buildConditionExpression(condition, attrs)
+    );
+    const FilterExpression = joinConditions(filters, ...conditions);
+    return FilterExpression ? { FilterExpression } : {};
+  }
+
   _buildConditionExpression(registry: AttributeRegistry) {
-    const KeyConditionExpression: string[] = [];
-    this.data.keyConditions.forEach((condition) => {
-      if (condition.operator === "BEGINS_WITH") {
-        KeyConditionExpression.push(
-          `begins_with(${registry.key(condition.fieldName)}, ${registry.value(
-            condition.value
-          )})`
-        );
-      } else {
-        KeyConditionExpression.push(
-          `${registry.key(condition.fieldName)} ${
-            condition.operator
-          } ${registry.value(condition.value)}`
+    const KeyConditionExpression = this.data.keyConditions.map((condition) => {
+      if (condition.operator === "IN" || condition.operator === "<>") {
+        throw new Error(
+          `${condition.operator} cannot be used in the key condition of ${condition.fieldName}, use a filter instead`
         );
       }
+      return this._buildCondition(condition, registry);
     });
     return {
       KeyConditionExpression: KeyConditionExpression.join(" and "),
     };
   }
 
+  _buildCondition(
+    { fieldName, operator, value }: Where,
+    attrs: AttributeRegistry
+  ) {
+    const name = attrs.key(fieldName);
+    const values = Array.isArray(value) ? value : [value];
+    if (operator === "BEGINS_WITH") {
+      return `begins_with(${name}, ${attrs.value(values[0])})`;
+    }
+    if (operator === "BETWEEN") {
+      if (values.length !== 2) {
+        throw new Error(
+          `BETWEEN expects a [lower, upper] pair of values for ${fieldName}, received ${JSON.stringify(
+            value
+          )}`
+        );
+      }
+      return `${name} BETWEEN ${attrs.value(values[0])} AND ${attrs.value(
+        values[1]
+      )}`;
+    }
+    if (operator === "IN") {
+      return `${name} IN (${values.map((v) => attrs.value(v)).join(", ")})`;
+    }
+    return `${name} ${operator} ${attrs.value(values[0])}`;
+  }
+
   _buildCursor() {
     if (this.data.cursor) {
       return {
@@ -0,0 +1,231 @@
+import { IndexQueryBuilder } from "./index-query-builder";
+import { batchGet } from "./batch-get";
+import { AnyRepository, InferIdType, InferObjectType } from "./repository";
+import { STDError } from "./utils/errors";
+
+export type InferIndexTag<Repo extends AnyRepository> = Parameters<
+  Repo["query"]
+>[0];
+
+/**
+ * Maps fields of an item to the fields of another item they are copied from
+ */
+export type FieldMap<T, From> = {
+  [K in Extract<keyof T, string>]?: Extract<keyof From, string>;
+};
+
+export type HasManyArgs<Parent, Child extends AnyRepository> = {
+  /**
+   * The repository of the related items
+   */
+  repository: Child;
+  /**
+   * The index of the related repository that groups the related items,
+   * every partition key field of the index must be mapped in fields
+   */
+  index: InferIndexTag<Child>;
+  /**
+   * Maps fields of the related items to the parent fields they are copied from
+   */
+  fields: FieldMap<InferObjectType<Child>, Parent>;
+};
+
+export type HasManyThroughArgs<
+  Parent,
+  Through extends AnyRepository,
+  Child extends AnyRepository
+> = {
+  /**
+   * The repository of the items that link a parent to the related items,
+   * i.e. a membership linking an org to its users
+   */
+  through: Through;
+  /**
+   * The index of the through repository that groups the links of a parent
+   */
+  index: InferIndexTag<Through>;
+  /**
+   * Maps fields of the links to the parent fields they are copied from
+   */
+  fields: FieldMap<InferObjectType<Through>, Parent>;
+  /**
+   * The repository of the related items
+   */
+  repository: Child;
+  /**
+   * Maps the id fields of the related items to the link fields they are copied from
+   */
+  targetFields: Required<
+    FieldMap<InferIdType<Child>, InferObjectType<Through>>
+  >;
+};
+
+/**
+ * A one to many relationship, the related items are stored with the
+ * fields of their parent so they share a partition of one of their indexes
+ *
+ * @example
+ *    const orgRepo = new Repository({ ... }).hasMany("members", {
+ *      repository: userRepo,
+ *      index: "orgId",
+ *      fields: { orgId: "id" },
+ *    });
+ *    const { Items, lastCursor } = await orgRepo
+ *      .related("members")
+ *      .of(org)
+ *      .exec();
+ */
+export class HasManyRelation<
+  Parent extends object,
+  Child extends AnyRepository
+> {
+  args: HasManyArgs<Parent, Child>;
+
+  constructor(args: HasManyArgs<Parent, Child>) {
+    assertPartitionKeyIsMapped(args.repository, args.index, args.fields);
+    this.args = args;
+  }
+
+  /**
+   * Queries the items related to parent
+   */
+  of(parent: Parent): IndexQueryBuilder<InferObjectType<Child>> {
+    return this.args.repository
+      .query(this.args.index)
+      .where(copyFields(parent, this.args.fields));
+  }
+}
+
+/**
+ * A many to many relationship, each link between a parent and a
+ * related item is stored as an item of the through repository
+ */
+export class HasManyThroughRelation<
+  Parent extends object,
+  Through extends AnyRepository,
+  Child extends AnyRepository
+> {
+  args: HasManyThroughArgs<Parent, Through, Child>;
+
+  constructor(args: HasManyThroughArgs<Parent, Through, Child>) {
+    assertPartitionKeyIsMapped(args.through, args.index, args.fields);
+    this.args = args;
+  }
+
+  /**
+   * Queries the items related to parent
+   */
+  of(
+    parent: Parent
+  ): RelatedQuery<InferObjectType<Child>, InferObjectType<Through>> {
+    const { through, index, fields, repository, targetFields } = this.args;
+    return new RelatedQuery({
+      query: through.query(index).where(copyFields(parent, fields)),
+      resolve: async (links) => {
+        const items = await batchGet(
+          repository.ddb,
+          links.map((link) =>
+            repository.batch.get(copyFields(link, targetFields))
+          ),
+          { parse: true }
+        );
+        return items.filter(Boolean);
+      },
+    });
+  }
+}
+
+/**
+ * Pages through the links of a many to many relationship
+ * and resolves each page of links to the related items
+ */
+export class RelatedQuery<T, Link extends object = Record<string, unknown>> {
+  private args: {
+    query: IndexQueryBuilder<Link>;
+    resolve: (links: Link[]) => Promise<T[]>;
+  };
+
+  constructor(args: RelatedQuery<T, Link>["args"]) {
+    this.args = args;
+  }
+
+  private clone(query: IndexQueryBuilder<Link>) {
+    return new RelatedQuery<T, Link>({ ...this.args, query });
+  }
+
+  limit(t: number) {
+    return this.clone(this.args.query.limit(t));
+  }
+
+  sort(direction: "asc" | "desc") {
+    return this.clone(this.args.query.sort(direction));
+  }
+
+  cursor(str: string) {
+    return this.clone(this.args.query.cursor(str));
+  }
+
+  /**
+   * Executes the query, related items that no longer exist are omitted
+   */
+  async exec() {
+    const page = await this.args.query.exec();
+    return {
+      Items: await this.args.resolve(page.Items),
+      hasNextPage: page.hasNextPage,
+      lastCursor: page.lastCursor,
+    };
+  }
+
+  /**
+   * iterates over the related items in batches
+   */
+  async *execAll(): AsyncGenerator<T[]> {
+    for await (const links of this.args.query.execAll()) {
+      const items = await this.args.resolve(links);
+      if (items.length) {
+        yield items;
+      }
+    }
+  }
+}
+
+export type AnyRelation =
+  | HasManyRelation<never, AnyRepository>
+  | HasManyThroughRelation<never, AnyRepository, AnyRepository>;
+
+function copyFields(from: object, fields: Record<string, string | undefined>) {
+  return Object.fromEntries(
+    Object.entries(fields).flatMap(([to, field]) =>
+      field === undefined
+        ? []
+        : [[to, (from as Record<string, unknown>)[field]]]
+    )
+  );
+}
+
+function assertPartitionKeyIsMapped(
+  repository: AnyRepository,
+  indexTag: string,
+  fields: Record<string, string | undefined>
+) {
+  const index = repository.getIndexByTag(indexTag);
+  const missing = index.fields
+    .slice(0, index.partitionKeyFieldCount || 1)
+    .filter((field) => !fields[field]);
+  if (missing.length > 0) {
+    throw new STDError({
+      name: "single-table-Error",
+      message: `The partition key fields of index ${indexTag} of ${
+        repository.args.typeName
+      } must be mapped to a field of the parent, missing: ${missing.join(
+        ", "
+      )}`,
+      meta: {
+        typeName: repository.args.typeName,
+        index: indexTag,
+        missing,
+      },
+    });
+  }
+}
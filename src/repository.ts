@@ -4,34 +4,82 @@ import {
   GetCommand,
   GetCommandOutput,
   PutCommand,
+  QueryCommand,
+  QueryCommandOutput,
+  TransactWriteCommand,
   UpdateCommand,
 } from "@aws-sdk/lib-dynamodb";
-import { IndexBase, IndexField, Mapper, RepositoryArgs } from "./mapper";
+import {
+  HistoryAction,
+  IndexBase,
+  IndexField,
+  Mapper,
+  RepositoryArgs,
+} from "./mapper";
 import { getCursorEncoder, IndexQueryBuilder } from "./index-query-builder";
-import { getDDBUpdateExpression } from "./utils/getDDBUpdateExpression";
+import { ScanBuilder } from "./scan-builder";
 import { BatchArgsHandler } from "./batch-args-handler";
-import { STDError, isSingleTableDynamoError } from "./utils/errors";
+import { TransactArgsHandler } from "./transact-args-handler";
+import { TransactWriteItem } from "./transaction";
+import {
+  AnyRelation,
+  HasManyArgs,
+  HasManyRelation,
+  HasManyThroughArgs,
+  HasManyThroughRelation,
+} from "./relationships";
+import {
+  STDError,
+  isConditionalCheckFailedError,
+  isSingleTableDynamoError,
+} from "./utils/errors";
 import { z } from "zod";
 import { goTry } from "./utils/goTry";
 import { AttributeRegistry } from "./utils/AttributeRegistry";
-import { getConditionExpression } from "./utils/getKeyCondition";
+import {
+  getConditionExpression,
+  joinConditions,
+} from "./utils/getKeyCondition";
 import { omit } from "./utils/omit";
-import { batchWrite } from "./batch-write";
+import { batchGet, GetRequest } from "./batch-get";
+import {
+  batchWrite,
+  batchWriteSettled,
+  DEFAULT_BATCH_OPTIONS,
+  WriteRequest,
+} from "./batch-write";
+import { mapWithConcurrency } from "./utils/backoff";
 import { ConditionalCheckFailedException } from "@aws-sdk/client-dynamodb";
+import { Condition, buildConditionExpression } from "./condition-expression";
+import {
+  UpdateExpression,
+  buildUpdateExpression,
+  isIfNotExistsAction,
+  splitUpdateExpression,
+  updateExpressionHelpers,
+} from "./update-expression";
 
 // https://www.typescriptlang.org/play?ssl=14&ssc=47&pln=14&pc=54#code/GYVwdgxgLglg9mABMGYAmAeCCDOVEAqiApgB5THo6IDeiYAhgLbEBcieATqgOaIC+AbQC6APgAUMCkxzsCAGnrM2hQWBBMARsU7DBAckYt9wgJS0AUImuJOxKCE5IpxGQDoU6SYgC8oxDBuRsS+Pj5KLKYA3Bb8FhZQAJ4ADiEAkpB2LGBQGAByJOSUaNTqWjr+4YJWiACM8gBM8gDM8gAs8gCs8gBs8gDs8gAc8gCc8rUADBP1tU21rbUdtd21fbWDtSO14w3TNQ31DU0NrQ0dDd0NfQ2DDSMN483TzfXNTc2tzR3N3c19zUGNWaI2a4za0za9TaTTarTaHTa3TafTagzaIza4060069U6TU6rU6HUQAHoyYgGNRgAxOFTqIk4CB6MRiGgam4uWVtJwROTKZoGDAADaIZn4ADuUgAFvQNLyLHo8sJ4klUogABIgOXhDIQLKUXKTUTxUCQWAIRAG4gMCgAJWIyTgOCkcE4iSwuHwAGUIDLXAxFNgwHhEBk0GRiNQyBQqIhxABrYhM4CIP0BpgMUwiCR0niySw2Dj+wPsDOB+Q1ayoSOkaPsCNRnCxcw0eLF83QeBIG124gARRAOk9IbDTdIAGkU4U4yV5eV6eETeI29Xi7Z7I4kO2N3vEJKA3ZxChiCK0I30M3BBPp4lhMG4ExknSVPowvpFAA3Bgi4fl0ssxvK96xwYC6zvYQzCLfdYLsBwnGtOx+yHEcMH1Q0cnQkC71ECRTHXWD+CrWDiyjCBVxg0iN3g7dEBEGJqOsOIiPXOJ11oxDd33ABHYcPXYSi-CQ20KFQj0MBXAji34GJYniMd8DsZ1fBE-tHWdV0oHdRJxG46wcEAhh2H0jdgnYfQuF4T9CJsBgeDfKywB4GzYM0GBOCgGULKcly2JImxa2bdgDHs4hP0QfR3M8mUTFbOTlLgdc3D4kdV2Sw8dGIcR9DCiL3x8fLfP0aSbDcTLjyijyvPyj9FEsqBuGckrkvI1cgA
 
+// the number of times a write recorded with history is retried when the item changes
+const MAX_HISTORY_ATTEMPTS = 5;
+
 type ModeOption = {
   mode?: "create" | "upsert" | "update";
 };
 
-const AddExpr = Symbol("Add");
-// const SetExpr = Symbol("Set");
-// const RemoveExpr = Symbol("Remove");
-// const DeleteExpr = Symbol("Delete");
+type ConditionOption<T> = {
+  /**
+   * An additional condition the stored item must satisfy for the write to
+   * succeed, a `single-table-ConditionalCheckFailedError` is thrown otherwise
+   */
+  condition?: Condition<T>;
+};
 
-type UpdateExpression<T> = {
-  [Property in keyof T]: T[Property] | [typeof AddExpr, T[Property]];
+type GetOptions = {
+  forceFetch?: boolean;
+  includeDeleted?: boolean;
+  consistentRead?: boolean;
 };
 
 type VerifyAgeFunc = {
@@ -88,7 +136,8 @@ export class Repository<
   IndexTag extends string = string,
   SecondaryIndexTag extends string = string,
   ID extends object = Pick<Output, PrimaryKeyField>,
-  Input = z.input<Schema>
+  Input = z.input<Schema>,
+  Relations extends Record<string, AnyRelation> = Record<never, never>
 > {
   args: RepositoryArgs<
     Schema,
@@ -105,8 +154,10 @@ export class Repository<
     SecondaryIndexTag,
     ID
   >;
-  batch: BatchArgsHandler<ID, Schema>;
+  batch: BatchArgsHandler<ID, Schema, Input, Output>;
+  transact: TransactArgsHandler<ID, Schema, Input, Output>;
   ddb: DocumentClient;
+  relations = {} as Relations;
 
   constructor(
     args: RepositoryArgs<
@@ -119,19 +170,33 @@ export class Repository<
   ) {
     this.args = args;
     this.mapper = new Mapper(args);
-    this.batch = new BatchArgsHandler<ID, Schema>(this.mapper as any);
+    this.batch = new BatchArgsHandler<ID, Schema, Input, Output>(
+      this.mapper,
+      this.parseAndMigrate.bind(this)
+    );
+    this.transact = new TransactArgsHandler<ID, Schema, Input, Output>(
+      this.mapper
+    );
     this.ddb = this.args.documentClient;
   }
 
   private async doGet(
-    id: ID
+    id: ID,
+    consistentRead = false
   ): Promise<Exclude<GetCommandOutput["Item"], undefined> | null> {
     const args = {
       TableName: this.args.tableName,
       Key: this.mapper.getKey(id),
     };
     const res = { Item: null };
-    if (this.args.dataLoader) {
+    if (consistentRead) {
+      // the dataLoader may have cached a stale item, so it is refreshed instead
+      const item = await this.ddb
+        .send(new GetCommand({ ...args, ConsistentRead: true }))
+        .then((res) => res.Item || null);
+      this.mapper.dataLoaderPrime(id, item);
+      return item;
+    } else if (this.args.dataLoader) {
       return this.args.dataLoader.load(args).then((res) => res.Item || null);
     } else {
       return this.ddb
@@ -161,17 +226,45 @@ export class Repository<
    * @param id The ID of the item to retrieve.
    * @param options An optional object containing additional options:
    *   - `forceFetch`: This param is only relevant when using dataLoader. A boolean indicating whether to force the item to be fetched from the database and not from the cache.
+   *   - `includeDeleted`: This param is only relevant when using softDelete. A boolean indicating whether to return the item even if it has been soft deleted.
+   *   - `select`: The fields to fetch using a ProjectionExpression, the item is validated against and narrowed to these fields. Projected reads bypass the dataLoader.
+   *   - `consistentRead`: A boolean indicating whether to use a strongly consistent read, bypassing the dataLoader cache. The dataLoader is primed with the item that was read.
    * @returns A promise that resolves to the retrieved item, or `undefined` if the item does not exist.
    * @throws A `SingleTableError` if there was an error retrieving the item.
    */
-  async get(id: ID, { forceFetch = false } = {}) {
+  async get<Field extends Extract<keyof Output, string>>(
+    id: ID,
+    options: GetOptions & { select: Field[] }
+  ): Promise<Pick<Output, Field> | null>;
+  async get(id: ID, options?: GetOptions): Promise<Output | null>;
+  async get(
+    id: ID,
+    {
+      forceFetch = false,
+      includeDeleted = false,
+      select,
+      consistentRead = false,
+    }: GetOptions & { select?: Extract<keyof Output, string>[] } = {}
+  ) {
     try {
       if (forceFetch) {
         this.mapper.dataLoaderClear(id);
       }
-      const res = await this.doGet(id);
+      const fetched = select
+        ? await this.getProjected(id, select, consistentRead)
+        : await this.doGet(id, consistentRead);
+      const res =
+        fetched &&
+        !this.mapper.isExpired(fetched) &&
+        (includeDeleted || !this.mapper.isDeleted(fetched))
+          ? fetched
+          : null;
 
-      const item: Output | null = res ? await this.parseAndMigrate(res) : null;
+      const item: Partial<Output> | null = !res
+        ? null
+        : select
+        ? (this.mapper.pickedParse(res, select, "output") as Partial<Output>)
+        : await this.parseAndMigrate(res);
 
       this.args.on?.get?.(
         [id as any],
@@ -245,7 +338,8 @@ export class Repository<
   }
 
   /**
-   * Mutates the item in place it exists and returns null if it does not exist.
+   * Mutates the item in place it exists and returns null if it does not exist
+   * or has been soft deleted.
    * There is risk to using this method as it does not update all indexes.
    * If you need to update all indexes, use repository.merge instead.
    *
@@ -255,43 +349,53 @@ export class Repository<
    *                           exist, a put will occur with the upsert args
    */
   async mutate(
-    _updates: ID & Partial<Input>,
+    _updates: ID & Partial<UpdateExpression<Input>>,
     options: {
       objectToPutIfNotExists?: Input;
-    } = {}
+    } & ConditionOption<Output> = {}
   ): Promise<Output | null> {
     try {
-      const id = _updates;
-      const updates = this.mapper.partialParse(_updates, "input");
-      const decoratedUpdates = this.mapper.partialDecorateWithKeys(updates);
-      const withoutPrimaryKeys = omit(decoratedUpdates, [
-        this.args.primaryIndex.pk,
-        this.args.primaryIndex.sk,
-      ]);
-
-      const updated = await this.ddb
-        .send(
-          new UpdateCommand({
-            TableName: this.args.tableName,
-            Key: this.mapper.getKey(id),
-            ...getDDBUpdateExpression(withoutPrimaryKeys),
-            ConditionExpression: getConditionExpression(
-              [this.args.primaryIndex.pk, this.args.primaryIndex.sk],
-              "update"
-            ),
-            ReturnValues: "ALL_NEW",
-          })
-        )
-        .then((res) =>
-          res.Attributes ? this.mapper.parse(res.Attributes, "output") : null
+      const id = _updates as ID;
+      const { version, input } = this.mapper.getMutateArgs(
+        _updates,
+        options.condition
+      );
+
+      const updated = await (this.args.history
+        ? // transactions cannot return the updated item
+          this.writeWithHistory(id, "mutate", { Update: input }).then(() =>
+            this.getRaw(id)
+          )
+        : this.ddb
+            .send(
+              new UpdateCommand({
+                ...input,
+                ReturnValues: "ALL_NEW",
+              })
+            )
+            .then((res) => res.Attributes)
+      )
+        .then((attributes) =>
+          attributes ? this.mapper.parse(attributes, "output") : null
         )
-        .catch((e) => {
+        .catch(async (e) => {
           // we expect the ConditionalCheck to fail when
           // the attribut does not exist
           if (
             e?.name === "ConditionalCheckFailedException" ||
             e instanceof ConditionalCheckFailedException
           ) {
+            if (version !== undefined || options.condition) {
+              const error = await this.explainConditionalCheckFailure(
+                id,
+                "mutate",
+                version,
+                e
+              );
+              if (error) {
+                throw error;
+              }
+            }
             return null;
           } else {
             throw e;
@@ -301,11 +405,11 @@ export class Repository<
       if (!updated && options.objectToPutIfNotExists) {
         return this.put(options.objectToPutIfNotExists);
       }
-      this.mapper.dataLoaderPrime(_updates, updated);
+      this.mapper.dataLoaderPrime(id, updated);
       this.args.on?.mutate?.(
-        [_updates, options as any],
+        [_updates as any, options as any],
         updated as any,
-        this.mapper.getHookResultInfo(_updates, updated ?? null)
+        this.mapper.getHookResultInfo(id, updated ?? null)
       );
       return updated;
     } catch (e: any) {
@@ -325,66 +429,64 @@ export class Repository<
     }
   }
 
-  expression = {
-    add<T>(thing: T): [typeof AddExpr, T] {
-      return [AddExpr, thing];
-    },
-  };
+  expression = updateExpressionHelpers;
 
   /**
    * Puts an item into the DynamoDB table using an update expression.
    *
-   * @param expr The update expression to use for the put operation.
+   * @param expr The update expression to use for the put operation.  When it contains
+   *             the versionField, the stored version must match it.
    * @param options.mode The mode to use for the put operation. Defaults to "upsert".
+   * @param options.condition An additional condition the stored item must satisfy.
    * @returns A Promise that resolves to the newly created item, or null if the item already exists and the mode is "upsert".
    */
   async putExpression(
     expr: ID & UpdateExpression<Omit<Input, keyof ID>>,
-    { mode = "upsert" }: ModeOption = {}
+    { mode = "upsert", condition }: ModeOption & ConditionOption<Output> = {}
   ): Promise<Output | null> {
-    const operationMap: Record<string, "ADD" | "SET"> = {};
-    const src: Input = Object.fromEntries(
-      Object.entries(expr).map(([key, value]) => {
-        if (Array.isArray(value) && value[0] === AddExpr) {
-          operationMap[key] = "ADD";
-          return [key, value[1]];
-        }
-        operationMap[key] = "SET";
-        return [key, value];
-      })
-    ) as any;
-
-    const parsed = this.mapper.parse({ ...src }, "input");
-    const decorated = this.mapper.decorateWithKeys(parsed);
+    const { values, actions } = splitUpdateExpression(
+      this.mapper.withTimestampExpressions(expr)
+    );
 
-    const setExpressions: string[] = [];
-    const addExpressions: string[] = [];
-    const registry = new AttributeRegistry();
+    const parsed = this.mapper.parse({ ...values }, "input");
+    const version = this.mapper.getVersion(parsed);
+    const decorated = this.mapper.decorateWithKeys(
+      this.mapper.withIncrementedVersion(parsed)
+    );
+    if (this.args.versionField && version === undefined) {
+      // without a version to compare against, the version is still incremented
+      delete decorated[this.args.versionField];
+      actions[this.args.versionField] = this.expression.add(1);
+    }
 
-    for (const [key, value] of Object.entries(decorated)) {
-      if (
-        key === this.args.primaryIndex.pk ||
-        key === this.args.primaryIndex.sk
-      ) {
-        // skip updates to primary key and sort key
-      } else if (operationMap[key] === "ADD") {
-        addExpressions.push(`${registry.key(key)} ${registry.value(value)}`);
-      } else {
-        // SET
-        setExpressions.push(`${registry.key(key)} = ${registry.value(value)}`);
+    // keys of indexes that contain a field which is only set if it does not
+    // exist (such as createdAt) are only set if they do not exist either
+    for (const index of this.mapper.getIndexes()) {
+      if (index.fields.some((f) => isIfNotExistsAction(actions[f]))) {
+        for (const key of [index.pk, index.sk]) {
+          if (key in decorated) {
+            actions[key] = this.expression.ifNotExists(decorated[key]);
+          }
+        }
       }
     }
 
-    const UpdateExpression = [
-      setExpressions.length > 0 ? `SET ${setExpressions.join(", ")}` : null,
-      addExpressions.length > 0 ? `ADD ${addExpressions.join(", ")}` : null,
-    ]
-      .filter((i) => i)
-      .join(" ");
+    const registry = new AttributeRegistry();
+    const UpdateExpression = buildUpdateExpression(
+      omit(decorated, [this.args.primaryIndex.pk, this.args.primaryIndex.sk]),
+      { ...actions, ...this.mapper.getHistoryRevisionActions() },
+      registry
+    );
 
-    const ConditionExpression = getConditionExpression(
-      [this.args.primaryIndex.pk, this.args.primaryIndex.sk],
-      mode
+    const ConditionExpression = joinConditions(
+      getConditionExpression(
+        [this.args.primaryIndex.pk, this.args.primaryIndex.sk],
+        mode
+      ),
+      version === undefined
+        ? undefined
+        : this.mapper.getVersionCondition(parsed, registry),
+      condition && buildConditionExpression(condition, registry)
     );
     const updateArgs = {
       TableName: this.args.tableName,
@@ -392,10 +494,37 @@ export class Repository<
       ...registry.get(),
       UpdateExpression,
       ConditionExpression,
-      ReturnValues: "ALL_NEW",
     };
 
-    const res = await this.ddb.send(new UpdateCommand(updateArgs));
+    const res = await (this.args.history
+      ? // transactions cannot return the updated item
+        this.writeWithHistory(expr, "put", { Update: updateArgs }).then(
+          async () => ({ Attributes: (await this.getRaw(expr)) ?? undefined })
+        )
+      : this.ddb.send(
+          new UpdateCommand({ ...updateArgs, ReturnValues: "ALL_NEW" })
+        )
+    ).catch(async (e) => {
+      if (!isConditionalCheckFailedError(e)) {
+        throw e;
+      }
+      const error =
+        version !== undefined
+          ? await this.explainConditionalCheckFailure(
+              expr,
+              "putExpression",
+              version,
+              e
+            )
+          : null;
+      if (error?.name === "single-table-VersionConflictError") {
+        throw error;
+      }
+      if (condition) {
+        throw this.conditionalCheckFailedError(expr, "putExpression", e);
+      }
+      throw e;
+    });
 
     const updated = res.Attributes
       ? this.mapper.parse(res.Attributes, "output")
@@ -410,32 +539,71 @@ export class Repository<
       );
     }
     if (updated) {
-      this.mapper.dataLoaderPrime(updated as any, updated as any);
+      this.mapper.dataLoaderPrime(updated, updated);
     }
 
     return updated;
   }
 
-  async put(src: Input, { mode = "upsert" }: ModeOption = {}): Promise<Output> {
+  async put(
+    src: Input,
+    { mode = "upsert", condition }: ModeOption & ConditionOption<Output> = {}
+  ): Promise<Output> {
     try {
-      const parsed = this.mapper.parse(src, "input");
-      const rawItem = this.mapper.decorateWithKeys(parsed);
-      await this.ddb.send(
-        new PutCommand({
-          TableName: this.args.tableName,
-          Item: rawItem,
-          ConditionExpression: getConditionExpression(
-            [this.args.primaryIndex.pk, this.args.primaryIndex.sk],
-            mode
-          ),
-        })
+      // an item that must not exist has no createdAt to keep
+      const [withCreatedAt] =
+        mode === "create" ? [src] : await this.withStoredCreatedAt([src]);
+      const input = this.mapper.parse(
+        this.mapper.withTimestamps(withCreatedAt as object),
+        "input"
       );
+      const registry = new AttributeRegistry();
+      const ConditionExpression = joinConditions(
+        this.mapper.getPutCondition(mode, registry),
+        mode === "update"
+          ? this.mapper.getVersionCondition(input, registry)
+          : undefined,
+        condition && buildConditionExpression(condition, registry)
+      );
+      const parsed = this.mapper.withIncrementedVersion(input);
+      const rawItem = this.mapper.decorateWithKeys(parsed);
+      const putInput = {
+        TableName: this.args.tableName,
+        Item: rawItem,
+        ConditionExpression,
+        ...registry.get(),
+      };
+      await (this.args.history
+        ? this.writeWithHistory(input, "put", { Put: putInput })
+        : this.ddb.send(new PutCommand(putInput))
+      ).catch(async (e) => {
+        if (!isConditionalCheckFailedError(e)) {
+          throw e;
+        }
+        const error =
+          mode === "update" && this.args.versionField
+            ? await this.explainConditionalCheckFailure(
+                input,
+                "put",
+                this.mapper.getVersion(input),
+                e,
+                { versionChecked: true }
+              )
+            : null;
+        if (error?.name === "single-table-VersionConflictError") {
+          throw error;
+        }
+        if (condition) {
+          throw error || this.conditionalCheckFailedError(input, "put", e);
+        }
+        throw e;
+      });
       this.args.on?.put?.(
-        [parsed, { mode }],
-        parsed as any,
-        this.mapper.getHookResultInfo(parsed as any, rawItem)
+        [parsed, { mode, ...(condition && { condition }) }],
+        parsed,
+        this.mapper.getHookResultInfo(parsed, rawItem)
       );
-      this.mapper.dataLoaderPrime(rawItem as any, rawItem);
+      this.mapper.dataLoaderPrime(rawItem, rawItem);
 
       return parsed;
     } catch (e: any) {
@@ -455,30 +623,530 @@ export class Repository<
     }
   }
 
+  private conditionalCheckFailedError(
+    id: ID | Output,
+    action: "put" | "putExpression" | "mutate" | "delete",
+    cause: unknown
+  ) {
+    return new STDError({
+      message: `Condition check failed while attempting to ${action} ${this.args.typeName}`,
+      cause,
+      name: "single-table-ConditionalCheckFailedError",
+      meta: {
+        id: this.mapper.getKey(id),
+        typeName: this.args.typeName,
+        action,
+      },
+    });
+  }
+
+  /**
+   * Reads the item after a write failed its ConditionExpression to explain why.
+   * Resolves to null if the item does not exist, to a VersionConflictError if
+   * its version is not expectedVersion, and to a ConditionalCheckFailedError otherwise
+   */
+  private async explainConditionalCheckFailure(
+    id: ID | Output,
+    action: "put" | "putExpression" | "mutate",
+    expectedVersion: number | undefined,
+    cause: unknown,
+    // put with mode "update" requires an item without a version to have none
+    { versionChecked = expectedVersion !== undefined } = {}
+  ): Promise<STDError | null> {
+    const rawItem = await this.getRaw(id);
+    if (!rawItem || this.mapper.isDeleted(rawItem)) {
+      return null;
+    }
+    this.mapper.dataLoaderClear(id);
+    const actualVersion = this.args.versionField
+      ? rawItem[this.args.versionField]
+      : undefined;
+    if (
+      this.args.versionField &&
+      versionChecked &&
+      actualVersion !== expectedVersion
+    ) {
+      return new STDError({
+        message: `${this.args.typeName} was modified by another write, expected version ${expectedVersion} but found ${actualVersion}`,
+        cause,
+        name: "single-table-VersionConflictError",
+        meta: {
+          id: this.mapper.getKey(id),
+          typeName: this.args.typeName,
+          expectedVersion,
+          actualVersion,
+        },
+      });
+    }
+    return this.conditionalCheckFailedError(id, action, cause);
+  }
+
+  /**
+   * Reads the selected fields of the raw item, bypassing the dataLoader
+   * which only caches whole items
+   */
+  private async getProjected(
+    id: ID,
+    select: Extract<keyof Output, string>[],
+    consistentRead: boolean
+  ) {
+    const registry = new AttributeRegistry();
+    const ProjectionExpression = this.mapper
+      .getProjectionAttributes(select)
+      .map((attribute) => registry.key(attribute))
+      .join(", ");
+    const res = await this.ddb.send(
+      new GetCommand({
+        TableName: this.args.tableName,
+        Key: this.mapper.getKey(id),
+        ProjectionExpression,
+        ...(consistentRead && { ConsistentRead: true }),
+        ...registry.get(),
+      })
+    );
+    return res.Item || null;
+  }
+
+  /**
+   * Reads the raw item (as stored in dynamodb) with a consistent read,
+   * bypassing the dataLoader
+   */
+  private async getRaw(id: ID | Output) {
+    const res = await this.ddb.send(
+      new GetCommand({
+        TableName: this.args.tableName,
+        Key: this.mapper.getKey(id),
+        ConsistentRead: true,
+      })
+    );
+    return res.Item || null;
+  }
+
+  /**
+   * Writes operation in a transaction along with a snapshot of the item
+   * as it was before the write.  The write is conditioned on the history
+   * revision that was read, and retried if another write landed in between.
+   * If the operation fails its own condition a ConditionalCheckFailedException
+   * is thrown, as it would be without history
+   */
+  private async writeWithHistory(
+    id: ID | Output,
+    action: HistoryAction,
+    operation: TransactWriteItem
+  ): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      const previous = await this.getRaw(id);
+      const snapshot =
+        previous && this.mapper.getHistorySnapshot(previous, action);
+      const written = await this.ddb
+        .send(
+          new TransactWriteCommand({
+            TransactItems: [
+              this.withHistoryRevisionCondition(operation, previous),
+              ...(snapshot
+                ? [
+                    {
+                      Put: {
+                        TableName: this.args.tableName,
+                        Item: snapshot,
+                        ConditionExpression: `attribute_not_exists(${this.args.primaryIndex.sk})`,
+                      },
+                    },
+                  ]
+                : []),
+            ],
+          })
+        )
+        .then(() => true)
+        .catch(async (e) => {
+          if (
+            e?.name !== "TransactionCanceledException" ||
+            e.CancellationReasons?.[0]?.Code !== "ConditionalCheckFailed"
+          ) {
+            throw e;
+          }
+          const current = await this.getRaw(id);
+          const changed =
+            !current !== !previous ||
+            (current &&
+              previous &&
+              this.mapper.getHistoryRevision(current) !==
+                this.mapper.getHistoryRevision(previous));
+          if (!changed) {
+            throw new ConditionalCheckFailedException({
+              message: e.message,
+              $metadata: e.$metadata,
+            });
+          }
+          if (attempt >= MAX_HISTORY_ATTEMPTS) {
+            throw new STDError({
+              message: `${this.args.typeName} was modified by other writes ${attempt} times while recording its history`,
+              cause: e,
+              name: "single-table-Error",
+              meta: {
+                id: this.mapper.getKey(id),
+                typeName: this.args.typeName,
+                attempts: attempt,
+              },
+            });
+          }
+          return false;
+        });
+      if (written) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Adds a condition to operation that the item still has the history
+   * revision of previous (or still does not exist), puts are given the next revision.
+   * Updates increment the revision with mapper.getHistoryRevisionActions
+   */
+  private withHistoryRevisionCondition(
+    operation: TransactWriteItem,
+    previous: Record<string, unknown> | null
+  ): TransactWriteItem {
+    const [type, input] = Object.entries(operation)[0] as [
+      keyof TransactWriteItem,
+      Record<string, any>
+    ];
+    const revision = previous ? this.mapper.getHistoryRevision(previous) : 0;
+    const name = "#historyRevision";
+    const value = ":historyRevision";
+    const condition = !previous
+      ? `attribute_not_exists(${this.args.primaryIndex.pk})`
+      : revision === 0
+      ? `attribute_not_exists(${name})`
+      : `${name} = ${value}`;
+    return {
+      [type]: {
+        ...input,
+        ...(type === "Put" && {
+          Item: {
+            ...input.Item,
+            [this.mapper.getHistoryRevisionAttribute()]: revision + 1,
+          },
+        }),
+        ConditionExpression: joinConditions(
+          input.ConditionExpression,
+          condition
+        ),
+        ...(previous && {
+          ExpressionAttributeNames: {
+            ...input.ExpressionAttributeNames,
+            [name]: this.mapper.getHistoryRevisionAttribute(),
+          },
+        }),
+        ...(revision > 0 && {
+          ExpressionAttributeValues: {
+            ...input.ExpressionAttributeValues,
+            [value]: revision,
+          },
+        }),
+      },
+    };
+  }
+
+  /**
+   * Returns the past versions of an item recorded when the repository uses history,
+   * newest first.  Each version is the item as it was before the put, merge, mutate
+   * or delete recorded with it replaced it
+   *
+   * @param id
+   * @returns A promise that resolves to the past versions of the item.
+   */
+  async history(id: ID): Promise<
+    {
+      item: Output;
+      recordedAt: string;
+      action: HistoryAction;
+    }[]
+  > {
+    try {
+      const { pk, sk } = this.args.primaryIndex;
+      const registry = new AttributeRegistry();
+      const KeyConditionExpression = `${registry.key(pk)} = ${registry.value(
+        this.mapper.getKey(id)[pk]
+      )} AND begins_with(${registry.key(sk)}, ${registry.value(
+        this.mapper.getHistoryKeyPrefix(id)
+      )})`;
+      const snapshots: NonNullable<QueryCommandOutput["Items"]> = [];
+      let ExclusiveStartKey: QueryCommandOutput["LastEvaluatedKey"];
+      do {
+        const res = await this.ddb.send(
+          new QueryCommand({
+            TableName: this.args.tableName,
+            KeyConditionExpression,
+            ScanIndexForward: false,
+            ExclusiveStartKey,
+            ...registry.get(),
+          })
+        );
+        snapshots.push(...(res.Items || []));
+        ExclusiveStartKey = res.LastEvaluatedKey;
+      } while (ExclusiveStartKey);
+
+      return Promise.all(
+        snapshots.map(async (snapshot) => ({
+          item: await this.parseAndMigrate(snapshot.item),
+          recordedAt: snapshot.recordedAt,
+          action: snapshot.action,
+        }))
+      );
+    } catch (e: any) {
+      if (isSingleTableDynamoError(e)) {
+        throw e;
+      }
+      throw new STDError({
+        message: `There was an error getting the history of ${this.args.typeName}`,
+        cause: e,
+        name: "single-table-Error",
+        meta: {
+          id,
+          typeName: this.args.typeName,
+        },
+      });
+    }
+  }
+
   async deleteMany(ids: ID[]): Promise<boolean[]> {
+    if (this.writesOneByOne()) {
+      return mapWithConcurrency(ids, this.getBatchConcurrency(), (id) =>
+        this.delete(id)
+      );
+    }
     return batchWrite({
       ddb: this.ddb,
       requests: ids.map((id) => this.batch.delete(id)),
       dataLoader: this.args.dataLoader,
+      ...this.args.batchOptions,
     });
   }
 
-  putMany(objs: Input[]): Promise<Output[]> {
+  async putMany(objs: Input[]): Promise<Output[]> {
+    if (this.args.history) {
+      return mapWithConcurrency(objs, this.getBatchConcurrency(), (obj) =>
+        this.put(obj)
+      );
+    }
+    const withCreatedAt = await this.withStoredCreatedAt(objs);
     return batchWrite({
       ddb: this.ddb,
-      requests: objs.map((obj) => this.batch.put(obj as any)),
+      requests: withCreatedAt.map((obj) => this.batch.put(obj)),
       dataLoader: this.args.dataLoader,
+      ...this.args.batchOptions,
     }).then((res) => res.map((i) => this.mapper.parse(i, "output")));
   }
 
-  async delete(id: ID): Promise<boolean> {
+  /**
+   * Like putMany, but resolves to the result of each item instead of throwing,
+   * in the order of objs.  An item that fails validation is rejected with a
+   * `single-table-InputValidationError` and is not written, an item that could
+   * not be written is rejected with a `single-table-UnprocessedItemsError`
+   * or a `single-table-BatchWriteError`
+   *
+   * @example
+   *    const results = await repo.putManySettled(rows);
+   *    results.forEach((result, i) => {
+   *      if (result.status === "rejected") {
+   *        console.log(`row ${i} failed`, result.reason);
+   *      }
+   *    });
+   */
+  async putManySettled(objs: Input[]): Promise<PromiseSettledResult<Output>[]> {
+    if (this.args.history) {
+      return this.settleEach(objs, (obj) => this.put(obj));
+    }
+    let withCreatedAt: Input[];
     try {
-      await this.ddb.send(
-        new DeleteCommand({
+      withCreatedAt = await this.withStoredCreatedAt(objs);
+    } catch (reason) {
+      return objs.map(() => ({ status: "rejected", reason }));
+    }
+    return this.settleMany(
+      withCreatedAt,
+      (obj) => this.batch.put(obj),
+      (item) => this.mapper.parse(item, "output")
+    );
+  }
+
+  /**
+   * Like deleteMany, but resolves to the result of each id instead of throwing,
+   * in the order of ids.  Ids that could not be deleted are rejected
+   * like the items of putManySettled
+   */
+  async deleteManySettled(ids: ID[]): Promise<PromiseSettledResult<boolean>[]> {
+    if (this.writesOneByOne()) {
+      return this.settleEach(ids, (id) => this.delete(id));
+    }
+    return this.settleMany(
+      ids,
+      (id) => this.batch.delete(id),
+      () => true
+    );
+  }
+
+  /**
+   * batchWrite cannot update items (soft deletes) or write them
+   * in transactions (history), those items are written one by one instead
+   */
+  private writesOneByOne() {
+    return Boolean(this.args.softDelete || this.args.history);
+  }
+
+  private getBatchConcurrency() {
+    return (
+      this.args.batchOptions?.concurrency ?? DEFAULT_BATCH_OPTIONS.concurrency
+    );
+  }
+
+  /**
+   * Copies the created timestamp of the stored items that objs will replace
+   * onto objs, so puts do not reset it.  Objects that already have one,
+   * or whose key cannot be derived (they fail validation later), are not read
+   */
+  private async withStoredCreatedAt(objs: Input[]): Promise<Input[]> {
+    const field = this.mapper.getCreatedAtField();
+    if (!field) {
+      return objs;
+    }
+    const requests = new Map<Input, GetRequest>();
+    for (const obj of objs) {
+      if ((obj as Record<string, unknown>)[field] !== undefined) {
+        continue;
+      }
+      try {
+        requests.set(obj, {
           TableName: this.args.tableName,
-          Key: this.mapper.getKey(id),
+          Key: this.mapper.getKey(obj as any),
+          projection: [field],
+        });
+      } catch (e) {
+        // the key fields are missing
+      }
+    }
+    if (requests.size === 0) {
+      return objs;
+    }
+    const stored = await batchGet(this.ddb, [...requests.values()], {
+      consistentRead: true,
+      ...this.args.batchOptions,
+    });
+    const storedCreatedAt = new Map(
+      [...requests.keys()].map((obj, i) => [obj, stored[i]?.[field]])
+    );
+    return objs.map((obj) => {
+      const createdAt = storedCreatedAt.get(obj);
+      return createdAt === undefined ? obj : { ...obj, [field]: createdAt };
+    });
+  }
+
+  /**
+   * Writes each input with write, with the batch concurrency
+   */
+  private async settleEach<T, Value>(
+    inputs: T[],
+    write: (input: T) => Promise<Value>
+  ): Promise<PromiseSettledResult<Value>[]> {
+    return mapWithConcurrency(inputs, this.getBatchConcurrency(), (input) =>
+      write(input).then(
+        (value): PromiseSettledResult<Value> => ({
+          status: "fulfilled",
+          value,
+        }),
+        (reason): PromiseSettledResult<Value> => ({
+          status: "rejected",
+          reason,
         })
-      );
+      )
+    );
+  }
+
+  private async settleMany<T, Value>(
+    inputs: T[],
+    toRequest: (input: T) => WriteRequest,
+    toValue: (written: unknown) => Value
+  ): Promise<PromiseSettledResult<Value>[]> {
+    const results: PromiseSettledResult<Value>[] = new Array(inputs.length);
+    const requests: WriteRequest[] = [];
+    const requestIndexes: number[] = [];
+    inputs.forEach((input, i) => {
+      try {
+        requests.push(toRequest(input));
+        requestIndexes.push(i);
+      } catch (reason) {
+        results[i] = { status: "rejected", reason };
+      }
+    });
+
+    const written = await batchWriteSettled({
+      ddb: this.ddb,
+      requests,
+      dataLoader: this.args.dataLoader,
+      ...this.args.batchOptions,
+    });
+    written.forEach((result, j) => {
+      const i = requestIndexes[j];
+      if (result.status === "rejected") {
+        results[i] = result;
+        return;
+      }
+      try {
+        results[i] = { status: "fulfilled", value: toValue(result.value) };
+      } catch (reason) {
+        results[i] = { status: "rejected", reason };
+      }
+    });
+    return results;
+  }
+
+  /**
+   * Deletes the item, or soft deletes it if the repository uses softDelete
+   *
+   * @param id
+   * @param options.condition A condition the stored item must satisfy.
+   * @returns A promise that resolves to true, even if the item did not exist
+   */
+  async delete(
+    id: ID,
+    options: ConditionOption<Output> = {}
+  ): Promise<boolean> {
+    return this.args.softDelete
+      ? this.markDeleted(id, options)
+      : this.purge(id, options);
+  }
+
+  /**
+   * Deletes the item from the table, even if the repository uses softDelete
+   *
+   * @param id
+   * @param options.condition A condition the stored item must satisfy.
+   * @returns A promise that resolves to true, even if the item did not exist
+   */
+  async purge(
+    id: ID,
+    { condition }: ConditionOption<Output> = {}
+  ): Promise<boolean> {
+    try {
+      const registry = new AttributeRegistry();
+      const deleteInput = {
+        TableName: this.args.tableName,
+        Key: this.mapper.getKey(id),
+        ...(condition && {
+          ConditionExpression: buildConditionExpression(condition, registry),
+        }),
+        ...registry.get(),
+      };
+      await (this.args.history
+        ? this.writeWithHistory(id, "delete", { Delete: deleteInput })
+        : this.ddb.send(new DeleteCommand(deleteInput))
+      ).catch((e) => {
+        if (isConditionalCheckFailedError(e)) {
+          throw this.conditionalCheckFailedError(id, "delete", e);
+        }
+        throw e;
+      });
       this.args.on?.delete?.([id as any], true, this.mapper.getHookKeyInfo(id));
       this.mapper.dataLoaderPrime(id, null);
       return true;
@@ -497,6 +1165,176 @@ export class Repository<
       });
     }
   }
+
+  private async markDeleted(
+    id: ID,
+    { condition }: ConditionOption<Output> = {}
+  ): Promise<boolean> {
+    try {
+      const updateInput = this.mapper.getMarkDeletedArgs(id, condition);
+      const deleted = await (this.args.history
+        ? this.writeWithHistory(id, "delete", { Update: updateInput })
+        : this.ddb.send(new UpdateCommand(updateInput))
+      )
+        .then(() => true)
+        .catch((e) => {
+          if (!isConditionalCheckFailedError(e)) {
+            throw e;
+          }
+          if (condition) {
+            throw this.conditionalCheckFailedError(id, "delete", e);
+          }
+          return false;
+        });
+      if (deleted) {
+        this.args.on?.delete?.(
+          [id as any],
+          true,
+          this.mapper.getHookKeyInfo(id)
+        );
+      }
+      this.mapper.dataLoaderPrime(id, null);
+      return true;
+    } catch (e: any) {
+      if (isSingleTableDynamoError(e)) {
+        throw e;
+      }
+      throw new STDError({
+        message: `There was an error deleting ${this.args.typeName}`,
+        cause: e,
+        name: "single-table-Error",
+        meta: {
+          id,
+          typeName: this.args.typeName,
+        },
+      });
+    }
+  }
+
+  /**
+   * Restores a soft deleted item, writing its secondary index keys again.
+   *
+   * @param id
+   * @returns A promise that resolves to the restored item, or null if the item does not exist.
+   */
+  async restore(id: ID): Promise<Output | null> {
+    const rawItem = await this.getRaw(id);
+    if (!rawItem) {
+      return null;
+    }
+    const softDeleteAttribute = this.mapper.getSoftDeleteAttribute();
+    if (!softDeleteAttribute || !this.mapper.isDeleted(rawItem)) {
+      return this.parseAndMigrate(rawItem);
+    }
+    const item = await this.parseAndMigrate(
+      omit(rawItem, [softDeleteAttribute])
+    );
+    // put decorates the item with its keys again
+    return this.put(item as any, { mode: "update" });
+  }
+
+  /**
+   * Declares a one to many relationship with the items of another repository
+   * that store the fields of their parent, queried with repository.related(name).of(parent)
+   *
+   * @param name The name of the relationship
+   * @param args.repository The repository of the related items
+   * @param args.index The index of the related repository that groups the items of a parent
+   * @param args.fields Maps fields of the related items to the parent fields they are copied from
+   * @returns A copy of the repository with the relationship, this repository is left unchanged
+   */
+  hasMany<Name extends string, Child extends AnyRepository>(
+    name: Name,
+    args: HasManyArgs<Output, Child>
+  ): Repository<
+    Schema,
+    Output,
+    PrimaryKeyField,
+    IndexTag,
+    SecondaryIndexTag,
+    ID,
+    Input,
+    Relations & Record<Name, HasManyRelation<Output, Child>>
+  > {
+    return this.withRelation(name, new HasManyRelation(args));
+  }
+
+  /**
+   * Declares a many to many relationship with the items of another repository,
+   * linked by the items of a through repository.  Queried with repository.related(name).of(parent)
+   *
+   * @param name The name of the relationship
+   * @param args.through The repository of the items linking a parent to the related items
+   * @param args.index The index of the through repository that groups the links of a parent
+   * @param args.fields Maps fields of the links to the parent fields they are copied from
+   * @param args.repository The repository of the related items
+   * @param args.targetFields Maps the id fields of the related items to the link fields they are copied from
+   * @returns A copy of the repository with the relationship, this repository is left unchanged
+   */
+  hasManyThrough<
+    Name extends string,
+    Through extends AnyRepository,
+    Child extends AnyRepository
+  >(
+    name: Name,
+    args: HasManyThroughArgs<Output, Through, Child>
+  ): Repository<
+    Schema,
+    Output,
+    PrimaryKeyField,
+    IndexTag,
+    SecondaryIndexTag,
+    ID,
+    Input,
+    Relations & Record<Name, HasManyThroughRelation<Output, Through, Child>>
+  > {
+    return this.withRelation(name, new HasManyThroughRelation(args));
+  }
+
+  private withRelation<Name extends string, Relation extends AnyRelation>(
+    name: Name,
+    relation: Relation
+  ) {
+    const repository = new Repository<
+      Schema,
+      Output,
+      PrimaryKeyField,
+      IndexTag,
+      SecondaryIndexTag,
+      ID,
+      Input,
+      Relations & Record<Name, Relation>
+    >(this.args);
+    repository.ddb = this.ddb;
+    repository.relations = Object.assign({}, this.relations, {
+      [name]: relation,
+    });
+    return repository;
+  }
+
+  /**
+   * Returns a relationship declared with hasMany or hasManyThrough
+   *
+   * @example
+   *    const { Items } = await orgRepo.related("members").of(org).exec();
+   */
+  related<Name extends Extract<keyof Relations, string>>(
+    name: Name
+  ): Relations[Name] {
+    const relation = this.relations[name];
+    if (!relation) {
+      throw new STDError({
+        name: "single-table-Error",
+        message: `${this.args.typeName} has no relationship named ${name}`,
+        meta: {
+          typeName: this.args.typeName,
+          name,
+        },
+      });
+    }
+    return relation;
+  }
+
   getIndexByTag(indexTag: IndexTag | SecondaryIndexTag): IndexBase<Output> {
     let index;
     if (this.args.secondaryIndexes?.[indexTag as SecondaryIndexTag]) {
@@ -510,7 +1348,14 @@ export class Repository<
     return index;
   }
 
-  query(indexTag: IndexTag | SecondaryIndexTag): IndexQueryBuilder<Output> {
+  /**
+   * @param options.consistentRead Uses a strongly consistent read,
+   *                               only supported by the primary index
+   */
+  query(
+    indexTag: IndexTag | SecondaryIndexTag,
+    { consistentRead = false }: { consistentRead?: boolean } = {}
+  ): IndexQueryBuilder<Output> {
     const builder = new IndexQueryBuilder<Output>({
       tableName: this.args.tableName,
       index: this.getIndexByTag(indexTag),
@@ -518,19 +1363,35 @@ export class Repository<
       ddb: this.ddb,
       parseAndMigrate: this.parseAndMigrate.bind(this),
     });
-    return builder;
+    return consistentRead ? builder.consistentRead() : builder;
+  }
+
+  /**
+   * Scans every item of the repository
+   *
+   * @param options.segments The number of segments to scan in parallel
+   * @returns A ScanBuilder, resumable with the cursor of the last page
+   */
+  scan({ segments }: { segments?: number } = {}): ScanBuilder<Output> {
+    return new ScanBuilder<Output>({
+      tableName: this.args.tableName,
+      mapper: this.mapper as AnyRepository["mapper"],
+      ddb: this.ddb,
+      parseAndMigrate: this.parseAndMigrate.bind(this),
+      segments,
+    });
   }
 
   getCursorEncoder(indexTag: IndexTag | SecondaryIndexTag) {
     return getCursorEncoder({
       secondaryIndex: this.getIndexByTag(indexTag),
       primaryIndex: this.args.primaryIndex,
-      mapper: this.mapper as any,
+      mapper: this.mapper as AnyRepository["mapper"],
     });
   }
 }
 
-export type AnyRepository = Repository<any, any, any, any, any, any, any>;
+export type AnyRepository = Repository<any, any, any, any, any, any, any, any>;
 
 export type InferInputType<Repo extends AnyRepository> =
   Repo extends Repository<any, any, any, any, any, any, infer Input>
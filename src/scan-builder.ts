@@ -0,0 +1,243 @@
+import {
+  DynamoDBDocumentClient as DocumentClient,
+  ScanCommand,
+  ScanCommandInput,
+  ScanCommandOutput,
+} from "@aws-sdk/lib-dynamodb";
+import { Mapper } from "./mapper";
+import { Condition } from "./condition-expression";
+import { Operator, QueryBuilder } from "./query-builder";
+import { AnyRepository } from "./repository";
+import { AttributeRegistry } from "./utils/AttributeRegistry";
+import { joinConditions } from "./utils/getKeyCondition";
+
+/**
+ * The start key of each segment of a parallel scan,
+ * null once the segment has been scanned completely
+ */
+type SegmentCursors = (Record<string, unknown> | null)[];
+
+type ScanBuilderArgs = {
+  tableName: string;
+  mapper: Mapper;
+  parseAndMigrate: AnyRepository["parseAndMigrate"];
+  ddb: DocumentClient;
+  builder?: QueryBuilder;
+  /**
+   * The number of segments scanned in parallel
+   */
+  segments?: number;
+  segmentCursors?: SegmentCursors;
+};
+
+/**
+ * Scans every item of one repository.  Items of other types stored in
+ * the table are filtered out by the typeName prefix of their sort key
+ *
+ * @example
+ *    for await (const users of userRepo.scan({ segments: 4 }).execAll()) {
+ *      console.log(users);
+ *    }
+ */
+export class ScanBuilder<Src extends object> {
+  tableName: string;
+  mapper: AnyRepository["mapper"];
+  parseAndMigrate: AnyRepository["parseAndMigrate"];
+  ddb: DocumentClient;
+  builder: QueryBuilder;
+  segments?: number;
+  segmentCursors?: SegmentCursors;
+  decodeCursor = (cursor: string) => this.mapper.decodeCursor(cursor);
+
+  constructor(args: ScanBuilderArgs) {
+    this.tableName = args.tableName;
+    this.mapper = args.mapper;
+    this.parseAndMigrate = args.parseAndMigrate;
+    this.ddb = args.ddb;
+    this.builder = (args.builder || new QueryBuilder()).table(args.tableName);
+    this.segments = args.segments;
+    this.segmentCursors = args.segmentCursors;
+  }
+
+  clone(
+    builder: QueryBuilder = this.builder,
+    segmentCursors = this.segmentCursors
+  ) {
+    return new ScanBuilder<Src>({
+      tableName: this.tableName,
+      mapper: this.mapper,
+      parseAndMigrate: this.parseAndMigrate,
+      ddb: this.ddb,
+      builder: builder.cloneWith(),
+      segments: this.segments,
+      segmentCursors,
+    });
+  }
+
+  /**
+   * The maximum number of items evaluated per request, when scanning
+   * in parallel this is the maximum number of items per segment
+   */
+  limit(t: number) {
+    return this.clone(this.builder.limit(t));
+  }
+
+  cursor(str: string) {
+    const decoded = this.decodeCursor(str);
+    const { primaryIndex } = this.mapper.args;
+    if (this.segments) {
+      if (!Array.isArray(decoded) || decoded.length !== this.segments) {
+        throw new Error(
+          `cursor was not created by a scan with ${this.segments} segments`
+        );
+      }
+      decoded.forEach(
+        (key) => key && this.mapper.assertCursorMatchesIndex(key, primaryIndex)
+      );
+      return this.clone(this.builder, decoded);
+    }
+    this.mapper.assertCursorMatchesIndex(decoded, primaryIndex);
+    return this.clone(this.builder.cursor(decoded));
+  }
+
+  /**
+   * Filters the scanned items, joined with the filter on the typeName.
+   * The scan still reads every item of the table, so filters reduce the
+   * items returned but not the capacity consumed, and limit() counts the
+   * items read before they are filtered, a page can be empty while the
+   * scan has more items
+   *
+   * @example
+   *    userRepo.scan().filter("age", ">=", 18)
+   *    userRepo.scan().filter({ not: { attributeExists: "deletedAt" } })
+   */
+  filter(condition: Condition<Src>): ScanBuilder<Src>;
+  filter<K extends keyof Src>(
+    key: K,
+    op: Operator,
+    value: Src[K]
+  ): ScanBuilder<Src>;
+  filter<K extends keyof Src>(
+    key: K | Condition<Src>,
+    op?: Operator,
+    value?: Src[K]
+  ) {
+    if (typeof key === "object") {
+      return this.clone(this.builder.filterWhere(key));
+    }
+    if (typeof key === "string" && op) {
+      return this.clone(this.builder.filter(key, op, value as any));
+    } else {
+      throw new Error("key in filter(key, op, value) must be a string");
+    }
+  }
+
+  build(
+    segment?: {
+      Segment: number;
+      TotalSegments: number;
+      ExclusiveStartKey?: Record<string, unknown>;
+    } | null
+  ): ScanCommandInput {
+    const registry = new AttributeRegistry();
+    const { typeName, primaryIndex } = this.mapper.args;
+    const sk = registry.key(primaryIndex.sk);
+    const typeCondition = `${sk} = ${registry.value(
+      typeName
+    )} OR begins_with(${sk}, ${registry.value(`${typeName}#`)})`;
+    const { FilterExpression } = this.builder._buildFilterExpression(registry);
+
+    return {
+      TableName: this.tableName,
+      Limit: this.builder.data.limit || 20,
+      FilterExpression: joinConditions(typeCondition, FilterExpression),
+      ...this.builder._buildCursor(),
+      ...segment,
+      ...registry.get(),
+    };
+  }
+
+  async exec({
+    parseExceptionBehavior = "throw",
+  }: {
+    parseExceptionBehavior?: "throw" | "ignore";
+  } = {}) {
+    let pages: Pick<ScanCommandOutput, "Items" | "LastEvaluatedKey">[];
+    let lastCursor: string | undefined;
+
+    if (this.segments) {
+      const TotalSegments = this.segments;
+      const cursors: SegmentCursors =
+        this.segmentCursors || Array(TotalSegments).fill({});
+      pages = await Promise.all(
+        cursors.map((cursor, Segment) =>
+          cursor
+            ? this.ddb.send(
+                new ScanCommand(
+                  this.build({
+                    Segment,
+                    TotalSegments,
+                    ...(Object.keys(cursor).length > 0 && {
+                      ExclusiveStartKey: cursor,
+                    }),
+                  })
+                )
+              )
+            : { Items: [] }
+        )
+      );
+      const nextCursors = pages.map((page) => page.LastEvaluatedKey || null);
+      lastCursor = nextCursors.some(Boolean)
+        ? this.mapper.encodeCursor(nextCursors)
+        : undefined;
+    } else {
+      const page = await this.ddb.send(new ScanCommand(this.build()));
+      pages = [page];
+      lastCursor = page.LastEvaluatedKey
+        ? this.mapper.encodeCursor(page.LastEvaluatedKey)
+        : undefined;
+    }
+
+    const Items = (await Promise.all(
+      pages
+        .flatMap((page) => page.Items || [])
+        .filter(
+          (item) => !this.mapper.isExpired(item) && !this.mapper.isDeleted(item)
+        )
+        .map((item) =>
+          this.parseAndMigrate(item).catch((error) => {
+            if (parseExceptionBehavior === "throw") {
+              throw error;
+            }
+            return item;
+          })
+        )
+    )) as Src[];
+
+    return {
+      Items,
+      hasNextPage: !!lastCursor,
+      lastCursor,
+    };
+  }
+
+  /**
+   * iterates over every item of the repository in batches,
+   * resume an interrupted scan by passing the last cursor to cursor()
+   *
+   * @example
+   *    for await (const items of repo.scan().execAll()) {
+   *      console.log(items);
+   *    }
+   */
+  async *execAll(): AsyncGenerator<Src[]> {
+    let cursor: string | undefined;
+    do {
+      const page = await (cursor ? this.cursor(cursor).exec() : this.exec());
+      if (page.Items.length) {
+        yield page.Items;
+      }
+      cursor = page.lastCursor;
+    } while (cursor);
+  }
+}
@@ -0,0 +1,192 @@
+import {
+  AttributeDefinition,
+  CreateTableCommandInput,
+  GlobalSecondaryIndex,
+  KeySchemaElement,
+  Projection,
+  ProvisionedThroughput,
+  UpdateTimeToLiveCommandInput,
+} from "@aws-sdk/client-dynamodb";
+import { TableConfig } from "./table-config";
+import { AnyRepository } from "./repository";
+
+export type ProjectionOption = "ALL" | "KEYS_ONLY" | { include: string[] };
+
+export type TableDefinitionOptions = {
+  /**
+   * Defaults to "PAY_PER_REQUEST", provisioned capacity
+   * is applied to the table and every index
+   */
+  billingMode?:
+    | "PAY_PER_REQUEST"
+    | { readCapacityUnits: number; writeCapacityUnits: number };
+  /**
+   * The projection of every secondary index, defaults to "ALL".
+   * Repositories expect every attribute to be projected unless they
+   * only query an index with select
+   */
+  projection?: ProjectionOption;
+  /**
+   * The projection of specific secondary indexes, by index name
+   */
+  projections?: Record<string, ProjectionOption>;
+  /**
+   * The attribute dynamodb uses to expire items, see RepositoryArgs.ttl
+   */
+  ttlAttribute?: string;
+  /**
+   * When set, only the secondary indexes used by these repositories are defined
+   */
+  repositories?: AnyRepository[];
+};
+
+/**
+ * Returns the input of a CreateTableCommand for the table
+ *
+ * @example
+ *    await client.send(new CreateTableCommand(getCreateTableInput(tableConfig)));
+ */
+export function getCreateTableInput(
+  config: TableConfig,
+  options: TableDefinitionOptions = {}
+): CreateTableCommandInput {
+  const indexes = getSecondaryIndexes(config, options);
+  const provisionedThroughput = getProvisionedThroughput(options);
+  const attributes = [
+    config.primaryIndex.pk,
+    config.primaryIndex.sk,
+    ...indexes.flatMap((i) => [i.pk, i.sk]),
+  ];
+
+  return {
+    TableName: config.tableName,
+    KeySchema: getKeySchema(config.primaryIndex),
+    AttributeDefinitions: [...new Set(attributes)].map(
+      (AttributeName): AttributeDefinition => ({
+        AttributeName,
+        AttributeType: "S",
+      })
+    ),
+    ...(provisionedThroughput
+      ? { ProvisionedThroughput: provisionedThroughput }
+      : { BillingMode: "PAY_PER_REQUEST" }),
+    ...(indexes.length > 0 && {
+      GlobalSecondaryIndexes: indexes.map(
+        (index): GlobalSecondaryIndex => ({
+          IndexName: index.indexName,
+          KeySchema: getKeySchema(index),
+          Projection: getProjection(
+            options.projections?.[index.indexName] ?? options.projection
+          ),
+          ...(provisionedThroughput && {
+            ProvisionedThroughput: provisionedThroughput,
+          }),
+        })
+      ),
+    }),
+  };
+}
+
+/**
+ * Returns the input of an UpdateTimeToLiveCommand enabling
+ * ttlAttribute, or undefined if ttlAttribute is not set.
+ * Time to live cannot be enabled by CreateTable
+ */
+export function getTimeToLiveInput(
+  config: TableConfig,
+  options: TableDefinitionOptions = {}
+): UpdateTimeToLiveCommandInput | undefined {
+  if (!options.ttlAttribute) {
+    return undefined;
+  }
+  return {
+    TableName: config.tableName,
+    TimeToLiveSpecification: {
+      AttributeName: options.ttlAttribute,
+      Enabled: true,
+    },
+  };
+}
+
+/**
+ * Returns an entry of the tables array of jest-dynalite-config.js
+ */
+export function getJestDynaliteTable(
+  config: TableConfig,
+  options: TableDefinitionOptions = {}
+): CreateTableCommandInput & { data: Record<string, unknown>[] } {
+  return { ...getCreateTableInput(config, options), data: [] };
+}
+
+/**
+ * Returns an AWS::DynamoDB::Table resource that can be used in a
+ * CloudFormation template, or with the CfnTable construct of the CDK
+ *
+ * @example
+ *    const template = {
+ *      Resources: { Table: getCloudFormationResource(tableConfig) },
+ *    };
+ */
+export function getCloudFormationResource(
+  config: TableConfig,
+  options: TableDefinitionOptions = {}
+) {
+  return {
+    Type: "AWS::DynamoDB::Table" as const,
+    Properties: {
+      ...getCreateTableInput(config, options),
+      ...(options.ttlAttribute && {
+        TimeToLiveSpecification: {
+          AttributeName: options.ttlAttribute,
+          Enabled: true,
+        },
+      }),
+    },
+  };
+}
+
+function getSecondaryIndexes(
+  config: TableConfig,
+  options: TableDefinitionOptions
+) {
+  if (!options.repositories) {
+    return config.secondaryIndexes;
+  }
+  const used = new Set(
+    options.repositories.flatMap((repository) =>
+      Object.values<{ indexName: string }>(
+        repository.args.secondaryIndexes || {}
+      ).map((index) => index.indexName)
+    )
+  );
+  return config.secondaryIndexes.filter((index) => used.has(index.indexName));
+}
+
+function getKeySchema(index: { pk: string; sk: string }): KeySchemaElement[] {
+  return [
+    { AttributeName: index.pk, KeyType: "HASH" },
+    { AttributeName: index.sk, KeyType: "RANGE" },
+  ];
+}
+
+function getProjection(projection: ProjectionOption = "ALL"): Projection {
+  if (typeof projection === "string") {
+    return { ProjectionType: projection };
+  }
+  return {
+    ProjectionType: "INCLUDE",
+    NonKeyAttributes: projection.include,
+  };
+}
+
+function getProvisionedThroughput(
+  options: TableDefinitionOptions
+): ProvisionedThroughput | undefined {
+  if (!options.billingMode || options.billingMode === "PAY_PER_REQUEST") {
+    return undefined;
+  }
+  return {
+    ReadCapacityUnits: options.billingMode.readCapacityUnits,
+    WriteCapacityUnits: options.billingMode.writeCapacityUnits,
+  };
+}
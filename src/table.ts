@@ -0,0 +1,205 @@
+import { DynamoDBDocumentClient as DocumentClient } from "@aws-sdk/lib-dynamodb";
+import { z } from "zod";
+import { CommonIndexTag, collection } from "./collection";
+import { IndexBase, IndexField, RepositoryArgs } from "./mapper";
+import { AnyRepository, Repository } from "./repository";
+import { TableConfig } from "./table-config";
+
+/**
+ * A dynamodb table and the repositories stored in it.  Registering a
+ * repository validates that its indexes exist in the table config and
+ * that its keys cannot collide with the keys of another repository.
+ *
+ * @example
+ *    const table = new Table(tableConfig, documentClient);
+ *    const userRepo = table.createRepository({
+ *      typeName: "User",
+ *      schema,
+ *      primaryIndex: { tag: "primary", pk: "pk0", sk: "sk0", fields: ["id"] },
+ *    });
+ */
+export class Table {
+  config: TableConfig;
+  documentClient: DocumentClient;
+  repositories: AnyRepository[] = [];
+
+  constructor(config: TableConfig, documentClient: DocumentClient) {
+    this.config = config;
+    this.documentClient = documentClient;
+    const indexNames = config.secondaryIndexes.map((i) => i.indexName);
+    const duplicate = indexNames.find((n, i) => indexNames.indexOf(n) !== i);
+    if (duplicate) {
+      throw new Error(
+        `SingleTableTableValidationError: table ${config.tableName} declares index ${duplicate} more than once.`
+      );
+    }
+  }
+
+  /**
+   * Creates a repository stored in this table and registers it
+   */
+  createRepository<
+    Schema extends z.AnyZodObject = z.AnyZodObject,
+    Output extends object = z.infer<Schema>,
+    PrimaryKeyField extends IndexField<Output> = IndexField<Output>,
+    IndexTag extends string = string,
+    SecondaryIndexTag extends string = string
+  >(
+    args: Omit<
+      RepositoryArgs<
+        Schema,
+        Output,
+        PrimaryKeyField,
+        IndexTag,
+        SecondaryIndexTag
+      >,
+      "tableName" | "documentClient"
+    >
+  ) {
+    return this.register(
+      new Repository<
+        Schema,
+        Output,
+        PrimaryKeyField,
+        IndexTag,
+        SecondaryIndexTag
+      >({
+        ...args,
+        tableName: this.config.tableName,
+        documentClient: this.documentClient,
+      })
+    );
+  }
+
+  /**
+   * Validates the indexes, key prefixes and typeName of repository against the table
+   * and the repositories already registered, then registers it
+   */
+  register<Repo extends AnyRepository>(repository: Repo): Repo {
+    const { typeName, tableName } = repository.args;
+    const fail = (message: string): never => {
+      throw new Error(
+        `SingleTableTableValidationError: ${typeName} ${message}.`
+      );
+    };
+
+    if (tableName !== this.config.tableName) {
+      fail(
+        `is stored in table ${tableName}, but was registered with table ${this.config.tableName}`
+      );
+    }
+
+    const { primaryIndex } = repository.args;
+    if (
+      primaryIndex.pk !== this.config.primaryIndex.pk ||
+      primaryIndex.sk !== this.config.primaryIndex.sk
+    ) {
+      fail(
+        `primaryIndex (${primaryIndex.pk}, ${primaryIndex.sk}) does not match the primary index (${this.config.primaryIndex.pk}, ${this.config.primaryIndex.sk}) of table ${tableName}`
+      );
+    }
+
+    for (const [tag, index] of Object.entries<
+      IndexBase<object> & { indexName: string }
+    >(repository.args.secondaryIndexes || {})) {
+      const tableIndex = this.config.secondaryIndexes.find(
+        (i) => i.indexName === index.indexName
+      );
+      if (!tableIndex) {
+        fail(
+          `secondary index ${tag} uses index ${index.indexName}, which does not exist in table ${tableName}`
+        );
+      } else if (tableIndex.pk !== index.pk || tableIndex.sk !== index.sk) {
+        fail(
+          `secondary index ${tag} (${index.pk}, ${index.sk}) does not match index ${index.indexName} (${tableIndex.pk}, ${tableIndex.sk}) of table ${tableName}`
+        );
+      }
+    }
+
+    for (const other of this.repositories) {
+      if (other === repository) {
+        return repository;
+      }
+      if (other.args.typeName === typeName) {
+        fail(`is already the typeName of another repository`);
+      }
+      for (const prefix of getKeyPrefixes(repository)) {
+        for (const otherPrefix of getKeyPrefixes(other)) {
+          if (
+            prefix.startsWith(`${otherPrefix}#`) ||
+            otherPrefix.startsWith(`${prefix}#`)
+          ) {
+            fail(
+              `key prefix ${prefix} collides with the key prefix ${otherPrefix} of ${other.args.typeName}`
+            );
+          }
+        }
+      }
+      // the queries of a typeName match the sort keys starting with it,
+      // so they would also match the items of a longer typeName in the same partition
+      const otherTypeName = other.args.typeName;
+      if (
+        typeName.startsWith(otherTypeName) ||
+        otherTypeName.startsWith(typeName)
+      ) {
+        const shared = getPartitions(repository).find((partition) =>
+          getPartitions(other).some(
+            (o) => o.pk === partition.pk && o.prefix === partition.prefix
+          )
+        );
+        if (shared) {
+          fail(
+            `typeName collides with the typeName ${otherTypeName}, they share the partition key prefix ${shared.prefix} of ${shared.pk}`
+          );
+        }
+      }
+    }
+
+    this.repositories.push(repository);
+    return repository;
+  }
+
+  /**
+   * Queries the items of several registered repositories stored in the same item collection
+   * @see collection
+   */
+  collection<Repos extends Record<string, AnyRepository>>(
+    repositories: Repos,
+    indexTag: CommonIndexTag<Repos>
+  ) {
+    for (const repository of Object.values(repositories)) {
+      if (!this.repositories.includes(repository)) {
+        throw new Error(
+          `SingleTableTableValidationError: ${repository.args.typeName} is not registered with table ${this.config.tableName}.`
+        );
+      }
+    }
+    return collection(repositories, indexTag);
+  }
+}
+
+/**
+ * The typeName and every partitionKeyPrefix used in the keys of repository
+ */
+function getKeyPrefixes(repository: AnyRepository): string[] {
+  return [
+    ...new Set([
+      repository.args.typeName,
+      ...repository.mapper
+        .getIndexes()
+        .flatMap((index) =>
+          index.partitionKeyPrefix ? [index.partitionKeyPrefix] : []
+        ),
+    ]),
+  ];
+}
+
+/**
+ * The partition key attribute and partition key prefix of every index of repository
+ */
+function getPartitions(repository: AnyRepository) {
+  return repository.mapper.getIndexes().map((index) => ({
+    pk: index.pk,
+    prefix: index.partitionKeyPrefix ?? repository.args.typeName,
+  }));
+}
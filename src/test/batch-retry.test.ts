@@ -0,0 +1,183 @@
+import { z } from "zod";
+import sinon from "sinon";
+import { Repository } from "../repository";
+import { batchGet } from "../batch-get";
+import { batchWrite } from "../batch-write";
+import { getBackoffDelay } from "../utils/backoff";
+import { getDocumentClient } from "./utils/getDocumentClient";
+import { stubDocumentClient } from "./utils/stubDocumentClient";
+
+const getUserRepo = (documentClient = getDocumentClient()) =>
+  new Repository({
+    tableName: "table1",
+    typeName: "User",
+    schema: z.object({
+      id: z.string(),
+    }),
+    primaryIndex: {
+      tag: "primary",
+      pk: "pk1",
+      sk: "sk1",
+      fields: ["id"],
+    },
+    documentClient,
+    batchOptions: { baseDelay: 0 },
+  });
+
+test("batchWrite should retry unprocessed items until they are processed", async () => {
+  const { ddb, send } = stubDocumentClient();
+  const repo = getUserRepo(ddb);
+  const unprocessed = repo.batch.put({ id: "2" });
+  send.onCall(0).returns(
+    Promise.resolve({
+      UnprocessedItems: { table1: [unprocessed.Operation] },
+    })
+  );
+  send.returns(Promise.resolve({ UnprocessedItems: {} }));
+
+  await repo.putMany([{ id: "1" }, { id: "2" }]);
+
+  expect(send.callCount).toBe(2);
+  expect(send.getCall(1)?.args[0].input).toMatchInlineSnapshot(`
+Object {
+  "RequestItems": Object {
+    "table1": Array [
+      Object {
+        "PutRequest": Object {
+          "Item": Object {
+            "id": "2",
+            "pk1": "User#2",
+            "sk1": "User",
+          },
+          "Key": Object {
+            "pk1": "User#2",
+            "sk1": "User",
+          },
+        },
+      },
+    ],
+  },
+}
+`);
+});
+
+test("batchWrite should throw the unprocessed keys after maxAttempts", async () => {
+  const { ddb, send } = stubDocumentClient();
+  const repo = getUserRepo(ddb);
+  const request = repo.batch.delete({ id: "1" });
+  send.returns(
+    Promise.resolve({
+      UnprocessedItems: { table1: [request.Operation] },
+    })
+  );
+
+  const error = await batchWrite({
+    ddb: repo.ddb,
+    requests: [request],
+    maxAttempts: 3,
+    baseDelay: 0,
+  }).catch((e) => e);
+
+  expect(send.callCount).toBe(3);
+  expect(error.name).toBe("single-table-UnprocessedItemsError");
+  expect(error.message).toBe(
+    "1 items were still unprocessed after 3 attempts of batchWrite"
+  );
+  expect(error.meta).toEqual({
+    attempts: 3,
+    unprocessed: [{ TableName: "table1", Key: { pk1: "User#1", sk1: "User" } }],
+  });
+});
+
+test("batchWrite should only prime the dataLoader with processed items", async () => {
+  const { ddb, send } = stubDocumentClient();
+  const repo = getUserRepo(ddb);
+  const dataLoader = {
+    load: sinon.stub(),
+    prime: sinon.stub(),
+    clear: sinon.stub(),
+  };
+  const unprocessed = repo.batch.put({ id: "2" });
+  send.returns(
+    Promise.resolve({
+      UnprocessedItems: { table1: [unprocessed.Operation] },
+    })
+  );
+
+  await expect(
+    batchWrite({
+      ddb: repo.ddb,
+      requests: [repo.batch.put({ id: "1" }), unprocessed],
+      dataLoader,
+      maxAttempts: 2,
+      baseDelay: 0,
+    })
+  ).rejects.toThrow("1 items were still unprocessed after 2 attempts");
+
+  expect(dataLoader.prime.getCalls().map((call) => call.args[0])).toEqual([
+    { TableName: "table1", Key: { pk1: "User#1", sk1: "User" } },
+  ]);
+});
+
+test("batchGet should retry unprocessed keys and throw after maxAttempts", async () => {
+  const { ddb, send } = stubDocumentClient();
+  const repo = getUserRepo(ddb);
+  const Key = { pk1: "User#1", sk1: "User" };
+  send.returns(
+    Promise.resolve({
+      Responses: {},
+      UnprocessedKeys: { table1: { Keys: [Key] } },
+    })
+  );
+
+  const error = await batchGet(repo.ddb, [repo.batch.get({ id: "1" })], {
+    maxAttempts: 2,
+    baseDelay: 0,
+  }).catch((e) => e);
+
+  expect(send.callCount).toBe(2);
+  expect(error.name).toBe("single-table-UnprocessedItemsError");
+  expect(error.message).toBe(
+    "1 keys were still unprocessed after 2 attempts of batchGet"
+  );
+  expect(error.meta.unprocessed).toEqual([{ TableName: "table1", Key }]);
+});
+
+test("putMany should send chunks of 25 items with a concurrency limit", async () => {
+  const { ddb, send } = stubDocumentClient();
+  let inFlight = 0;
+  let maxInFlight = 0;
+  send.callsFake(async () => {
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    inFlight--;
+    return { UnprocessedItems: {} };
+  });
+  const repo = getUserRepo(ddb);
+  repo.args.batchOptions = { concurrency: 2 };
+
+  const users = Array.from({ length: 130 }, (_, i) => ({ id: `${i}` }));
+  await expect(repo.putMany(users)).resolves.toEqual(users);
+
+  expect(send.callCount).toBe(6);
+  expect(maxInFlight).toBe(2);
+  const sizes = send
+    .getCalls()
+    .map((call) => call.args[0].input.RequestItems.table1.length);
+  expect(sizes).toEqual([25, 25, 25, 25, 25, 5]);
+});
+
+test("getBackoffDelay should grow exponentially up to maxDelay", () => {
+  const random = sinon.stub(Math, "random").returns(0.999999);
+  try {
+    const delays = { baseDelay: 50, maxDelay: 1000 };
+    expect(Math.round(getBackoffDelay(0, delays))).toBe(50);
+    expect(Math.round(getBackoffDelay(2, delays))).toBe(200);
+    expect(Math.round(getBackoffDelay(10, delays))).toBe(1000);
+    random.returns(0);
+    expect(getBackoffDelay(10, delays)).toBe(0);
+  } finally {
+    random.restore();
+  }
+});
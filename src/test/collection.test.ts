@@ -0,0 +1,135 @@
+import { z } from "zod";
+import { expectTypeOf } from "expect-type";
+import { Repository } from "../repository";
+import { collection } from "../collection";
+import { getDocumentClient } from "./utils/getDocumentClient";
+
+function getRepos() {
+  const customerRepo = new Repository({
+    tableName: "THINGS_TABLE",
+    typeName: "Customer",
+    schema: z.object({
+      customerId: z.string(),
+      name: z.string(),
+    }),
+    primaryIndex: {
+      tag: "primary",
+      pk: "pk0",
+      sk: "sk0",
+      fields: ["customerId"],
+      partitionKeyPrefix: "Customer",
+    },
+    documentClient: getDocumentClient(),
+  });
+  const orderRepo = new Repository({
+    tableName: "THINGS_TABLE",
+    typeName: "Order",
+    schema: z.object({
+      customerId: z.string(),
+      orderId: z.string(),
+      total: z.number(),
+    }),
+    primaryIndex: {
+      tag: "primary",
+      pk: "pk0",
+      sk: "sk0",
+      fields: ["customerId", "orderId"],
+      partitionKeyPrefix: "Customer",
+    },
+    documentClient: getDocumentClient(),
+  });
+  const orderNoteRepo = new Repository({
+    tableName: "THINGS_TABLE",
+    typeName: "OrderNote",
+    schema: z.object({
+      customerId: z.string(),
+      noteId: z.string(),
+    }),
+    primaryIndex: {
+      tag: "primary",
+      pk: "pk0",
+      sk: "sk0",
+      fields: ["customerId", "noteId"],
+      partitionKeyPrefix: "Customer",
+    },
+    documentClient: getDocumentClient(),
+  });
+  const invoiceRepo = new Repository({
+    tableName: "THINGS_TABLE",
+    typeName: "Invoice",
+    schema: z.object({
+      customerId: z.string(),
+      invoiceId: z.string(),
+    }),
+    primaryIndex: {
+      tag: "primary",
+      pk: "pk0",
+      sk: "sk0",
+      fields: ["customerId", "invoiceId"],
+    },
+    documentClient: getDocumentClient(),
+  });
+  return { customerRepo, orderRepo, orderNoteRepo, invoiceRepo };
+}
+
+test("partitionKeyPrefix should replace the typeName of the partition key", () => {
+  const { orderRepo } = getRepos();
+  expect(orderRepo.getKey({ customerId: "c1", orderId: "o1" })).toEqual({
+    pk0: "Customer#c1",
+    sk0: "Order#o1",
+  });
+});
+
+test("collection should query every repository with one query", async () => {
+  const { customerRepo, orderRepo, orderNoteRepo } = getRepos();
+  await customerRepo.putMany([
+    { customerId: "c1", name: "jim" },
+    { customerId: "c2", name: "pam" },
+  ]);
+  await orderRepo.putMany([
+    { customerId: "c1", orderId: "o1", total: 5 },
+    { customerId: "c1", orderId: "o2", total: 10 },
+    { customerId: "c2", orderId: "o3", total: 15 },
+  ]);
+  // OrderNote items share the partition, but are not part of the collection
+  await orderNoteRepo.put({ customerId: "c1", noteId: "n1" });
+
+  const query = collection(
+    { Customer: customerRepo, Order: orderRepo },
+    "primary"
+  ).where({ customerId: "c1" });
+  const res = await query.exec();
+
+  expectTypeOf(res.Items.Customer).toEqualTypeOf<
+    { customerId: string; name: string }[]
+  >();
+  expectTypeOf(res.Items.Order).toEqualTypeOf<
+    { customerId: string; orderId: string; total: number }[]
+  >();
+  expect(res.Items).toEqual({
+    Customer: [{ customerId: "c1", name: "jim" }],
+    Order: [
+      { customerId: "c1", orderId: "o1", total: 5 },
+      { customerId: "c1", orderId: "o2", total: 10 },
+    ],
+  });
+
+  const pages = [];
+  for await (const page of query.limit(2).execAll()) {
+    pages.push(page);
+  }
+  expect(pages).toHaveLength(2);
+  expect(pages.flatMap((page) => page.Order)).toHaveLength(2);
+});
+
+test("collection should require a shared partition key", () => {
+  const { customerRepo, invoiceRepo } = getRepos();
+  expect(() =>
+    collection(
+      { Customer: customerRepo, Invoice: invoiceRepo },
+      "primary"
+    ).where({ customerId: "c1" })
+  ).toThrowErrorMatchingInlineSnapshot(
+    `"The repositories of a collection must share a partition key, give their indexes the same partitionKeyPrefix"`
+  );
+});
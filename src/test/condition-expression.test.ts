@@ -0,0 +1,173 @@
+import { z } from "zod";
+import { Repository } from "../repository";
+import { buildConditionExpression } from "../condition-expression";
+import { AttributeRegistry } from "../utils/AttributeRegistry";
+import { getDocumentClient } from "./utils/getDocumentClient";
+
+const getPostRepo = () =>
+  new Repository({
+    tableName: "table1",
+    typeName: "Post",
+    schema: z.object({
+      id: z.string(),
+      status: z.enum(["draft", "published"]),
+      title: z.string(),
+      publishedAt: z.string().optional(),
+    }),
+    primaryIndex: {
+      tag: "primary",
+      pk: "pk1",
+      sk: "sk1",
+      fields: ["id"],
+    },
+    documentClient: getDocumentClient(),
+  });
+
+test("buildConditionExpression should compile nested conditions", () => {
+  const registry = new AttributeRegistry();
+  const expression = buildConditionExpression<{
+    status: string;
+    age: number;
+    name: string;
+  }>(
+    {
+      or: [
+        { status: ["=", "draft"], age: ["BETWEEN", 1, 5] },
+        { not: { name: ["BEGINS_WITH", "j"] } },
+        { attributeNotExists: "status" },
+      ],
+    },
+    registry
+  );
+
+  expect(expression).toMatchInlineSnapshot(
+    `"((#attr0 = :value0) AND (#attr1 BETWEEN :value1 AND :value2)) OR (NOT (begins_with(#attr2, :value3))) OR (attribute_not_exists(#attr0))"`
+  );
+  expect(registry.get()).toMatchInlineSnapshot(`
+Object {
+  "ExpressionAttributeNames": Object {
+    "#attr0": "status",
+    "#attr1": "age",
+    "#attr2": "name",
+  },
+  "ExpressionAttributeValues": Object {
+    ":value0": "draft",
+    ":value1": 1,
+    ":value2": 5,
+    ":value3": "j",
+  },
+}
+`);
+});
+
+test("buildConditionExpression should compile functions and IN", () => {
+  const registry = new AttributeRegistry();
+  const expression = buildConditionExpression<{
+    status: string;
+    tags: string[];
+    title: string;
+  }>(
+    {
+      and: [
+        { status: ["IN", ["draft", "review"]], tags: ["CONTAINS", "news"] },
+        { size: { tags: ["BETWEEN", 1, 3] } },
+        { attributeType: { title: "S" } },
+      ],
+    },
+    registry
+  );
+
+  expect(expression).toMatchInlineSnapshot(
+    `"((#attr0 IN (:value0, :value1)) AND (contains(#attr1, :value2))) AND (size(#attr1) BETWEEN :value3 AND :value4) AND (attribute_type(#attr2, :value5))"`
+  );
+  expect(() =>
+    buildConditionExpression({ status: ["IN", []] }, new AttributeRegistry())
+  ).toThrow("IN requires at least one value for status");
+});
+
+test("put should respect condition", async () => {
+  const repo = getPostRepo();
+  await repo.put({ id: "1", status: "published", title: "a" });
+
+  await expect(
+    repo.put(
+      { id: "1", status: "draft", title: "b" },
+      { condition: { status: ["=", "draft"] } }
+    )
+  ).rejects.toMatchObject({
+    name: "single-table-ConditionalCheckFailedError",
+    message: "Condition check failed while attempting to put Post",
+  });
+
+  await expect(
+    repo.put(
+      { id: "1", status: "draft", title: "b" },
+      { mode: "update", condition: { attributeNotExists: "publishedAt" } }
+    )
+  ).resolves.toMatchObject({ title: "b" });
+});
+
+test("mutate should respect condition and still return null for missing items", async () => {
+  const repo = getPostRepo();
+  await repo.put({ id: "1", status: "published", title: "a" });
+
+  await expect(
+    repo.mutate(
+      { id: "1", title: "b" },
+      { condition: { status: ["=", "draft"] } }
+    )
+  ).rejects.toMatchObject({
+    name: "single-table-ConditionalCheckFailedError",
+  });
+  await expect(
+    repo.mutate(
+      { id: "1", title: "b" },
+      { condition: { not: { status: ["=", "draft"] } } }
+    )
+  ).resolves.toMatchObject({ title: "b" });
+  await expect(
+    repo.mutate(
+      { id: "2", title: "b" },
+      { condition: { status: ["=", "draft"] } }
+    )
+  ).resolves.toBeNull();
+});
+
+test("putExpression should respect condition", async () => {
+  const repo = getPostRepo();
+  await repo.put({ id: "1", status: "published", title: "a" });
+
+  await expect(
+    repo.putExpression(
+      { id: "1", status: "draft", title: "b" },
+      { condition: { status: ["=", "draft"] } }
+    )
+  ).rejects.toMatchObject({
+    name: "single-table-ConditionalCheckFailedError",
+  });
+});
+
+test("delete should respect condition", async () => {
+  const repo = getPostRepo();
+  await repo.put({ id: "1", status: "published", title: "a" });
+
+  await expect(
+    repo.delete({ id: "1" }, { condition: { status: ["=", "draft"] } })
+  ).rejects.toMatchObject({
+    name: "single-table-ConditionalCheckFailedError",
+    message: "Condition check failed while attempting to delete Post",
+  });
+  await expect(repo.get({ id: "1" })).resolves.toMatchObject({ title: "a" });
+
+  await expect(
+    repo.delete(
+      { id: "1" },
+      {
+        condition: {
+          and: [{ status: ["=", "published"] }, { attributeExists: "title" }],
+        },
+      }
+    )
+  ).resolves.toBe(true);
+  await expect(repo.get({ id: "1" })).resolves.toBeNull();
+});
@@ -0,0 +1,114 @@
+import { z } from "zod";
+import sinon from "sinon";
+import { Repository } from "../repository";
+import { batchGet } from "../batch-get";
+import { getDocumentClient } from "./utils/getDocumentClient";
+import { stubDocumentClient } from "./utils/stubDocumentClient";
+
+const getUserRepo = (documentClient = getDocumentClient()) =>
+  new Repository({
+    tableName: "table1",
+    typeName: "User",
+    schema: z.object({
+      id: z.string(),
+      orgId: z.string(),
+    }),
+    primaryIndex: {
+      tag: "primary",
+      pk: "pk1",
+      sk: "sk1",
+      fields: ["id"],
+    },
+    secondaryIndexes: {
+      orgId: {
+        pk: "pk2",
+        sk: "sk2",
+        fields: ["orgId", "id"],
+        indexName: "gsi1",
+      },
+    },
+    documentClient,
+  });
+
+test("get with consistentRead should send ConsistentRead", async () => {
+  const { ddb, send } = stubDocumentClient();
+  send.returns(Promise.resolve({ Item: { id: "1", orgId: "o1" } }));
+  const repo = getUserRepo(ddb);
+
+  await expect(
+    repo.get({ id: "1" }, { consistentRead: true })
+  ).resolves.toEqual({ id: "1", orgId: "o1" });
+  await repo.get({ id: "1" }, { consistentRead: true, select: ["orgId"] });
+  await repo.get({ id: "1" });
+
+  const inputs = send.getCalls().map((call) => call.args[0].input);
+  expect(inputs[0]).toHaveProperty("ConsistentRead", true);
+  expect(inputs[1]).toHaveProperty("ConsistentRead", true);
+  expect(inputs[2]).not.toHaveProperty("ConsistentRead");
+});
+
+test("consistentRead should bypass and refresh the dataLoader", async () => {
+  const repo = getUserRepo();
+  const dataLoader = {
+    load: sinon.stub().resolves({ Item: { id: "1", orgId: "stale" } }),
+    prime: sinon.stub(),
+    clear: sinon.stub(),
+  };
+  dataLoader.clear.returns(dataLoader);
+  repo.args.dataLoader = dataLoader;
+  await repo.put({ id: "1", orgId: "o1" });
+  dataLoader.prime.resetHistory();
+
+  await expect(
+    repo.get({ id: "1" }, { consistentRead: true })
+  ).resolves.toEqual({ id: "1", orgId: "o1" });
+  expect(dataLoader.load.callCount).toBe(0);
+  expect(dataLoader.prime.getCall(0)?.args[1].Item).toMatchObject({
+    orgId: "o1",
+  });
+});
+
+test("query should only allow consistentRead on the primary index", async () => {
+  const repo = getUserRepo();
+  await repo.put({ id: "1", orgId: "o1" });
+
+  const query = repo
+    .query("primary", { consistentRead: true })
+    .where({ id: "1" });
+  expect(query.build().ConsistentRead).toBe(true);
+  await expect(query.exec()).resolves.toMatchObject({
+    Items: [{ id: "1", orgId: "o1" }],
+  });
+
+  expect(() => repo.query("orgId").consistentRead()).toThrow(
+    "Consistent reads are not supported on global secondary indexes, User cannot query gsi1 with consistentRead"
+  );
+  expect(() => repo.query("orgId", { consistentRead: true })).toThrow(
+    "Consistent reads are not supported"
+  );
+});
+
+test("batchGet with consistentRead should send ConsistentRead for every table", async () => {
+  const { ddb, send } = stubDocumentClient();
+  send.returns(Promise.resolve({ Responses: {} }));
+  const repo = getUserRepo(ddb);
+
+  await batchGet(repo.ddb, [repo.batch.get({ id: "1" })], {
+    consistentRead: true,
+  });
+  expect(send.getCall(0)?.args[0].input).toMatchInlineSnapshot(`
+Object {
+  "RequestItems": Object {
+    "table1": Object {
+      "ConsistentRead": true,
+      "Keys": Array [
+        Object {
+          "pk1": "User#1",
+          "sk1": "User",
+        },
+      ],
+    },
+  },
+}
+`);
+});
@@ -0,0 +1,93 @@
+import { z } from "zod";
+import { Repository } from "../repository";
+import { getDocumentClient } from "./utils/getDocumentClient";
+import { stubDocumentClient } from "./utils/stubDocumentClient";
+
+const getNoteRepo = (documentClient = getDocumentClient()) =>
+  new Repository({
+    tableName: "table1",
+    typeName: "Note",
+    schema: z.object({
+      id: z.string(),
+      owner: z.string(),
+      stars: z.number(),
+    }),
+    primaryIndex: {
+      tag: "primary",
+      pk: "pk1",
+      sk: "sk1",
+      fields: ["id"],
+    },
+    secondaryIndexes: {
+      owner: {
+        pk: "pk2",
+        sk: "sk2",
+        fields: ["owner", "id"],
+        indexName: "gsi1",
+      },
+    },
+    softDelete: true,
+    documentClient,
+  });
+
+test("count should count every matching item, honoring filters", async () => {
+  const repo = getNoteRepo();
+  await repo.putMany([
+    ...[1, 2, 3, 4, 5].map((i) => ({ id: `${i}`, owner: "jim", stars: i })),
+    { id: "6", owner: "pam", stars: 1 },
+  ]);
+
+  const query = repo.query("owner").where({ owner: "jim" });
+  await expect(query.limit(2).count()).resolves.toBe(5);
+  await expect(query.filter("stars", ">", 3).count()).resolves.toBe(2);
+});
+
+test("count should exclude soft deleted items", async () => {
+  const repo = getNoteRepo();
+  await repo.putMany([
+    { id: "1", owner: "jim", stars: 1 },
+    { id: "2", owner: "jim", stars: 1 },
+  ]);
+  await repo.delete({ id: "1" });
+
+  const query = repo.query("primary").where({ id: "1" });
+  await expect(query.count()).resolves.toBe(0);
+  await expect(query.includeDeleted().count()).resolves.toBe(1);
+});
+
+test("count should follow LastEvaluatedKey", async () => {
+  const { ddb, send } = stubDocumentClient();
+  send
+    .onFirstCall()
+    .returns(Promise.resolve({ Count: 3, LastEvaluatedKey: { pk2: "a" } }))
+    .onSecondCall()
+    .returns(Promise.resolve({ Count: 2 }));
+  const repo = getNoteRepo(ddb);
+
+  await expect(
+    repo.query("owner").where({ owner: "jim" }).count()
+  ).resolves.toBe(5);
+  expect(send.callCount).toBe(2);
+  expect(send.getCall(1)?.args[0].input).toMatchInlineSnapshot(`
+Object {
+  "ExclusiveStartKey": Object {
+    "pk2": "a",
+  },
+  "ExpressionAttributeNames": Object {
+    "#attr0": "pk2",
+    "#attr1": "sk2",
+    "#deletedAt": "deletedAt",
+  },
+  "ExpressionAttributeValues": Object {
+    ":value0": "Note#jim",
+    ":value1": "Note",
+  },
+  "FilterExpression": "attribute_not_exists(#deletedAt)",
+  "IndexName": "gsi1",
+  "KeyConditionExpression": "#attr0 = :value0 and begins_with(#attr1, :value1)",
+  "ScanIndexForward": true,
+  "Select": "COUNT",
+  "TableName": "table1",
+}
+`);
+});
@@ -0,0 +1,125 @@
+import { z } from "zod";
+import { Repository } from "../repository";
+import { base64CursorCodec, signedCursorCodec } from "../cursor-codec";
+import { getDocumentClient } from "./utils/getDocumentClient";
+
+const getNoteRepo = (cursorCodec = signedCursorCodec({ secret: "secret" })) =>
+  new Repository({
+    tableName: "table1",
+    typeName: "Note",
+    schema: z.object({
+      id: z.string(),
+      tenant: z.string(),
+    }),
+    primaryIndex: {
+      tag: "primary",
+      pk: "pk1",
+      sk: "sk1",
+      fields: ["id"],
+    },
+    secondaryIndexes: {
+      tenant: {
+        pk: "pk2",
+        sk: "sk2",
+        fields: ["tenant", "id"],
+        indexName: "gsi1",
+      },
+    },
+    cursorCodec,
+    documentClient: getDocumentClient(),
+  });
+
+const key = { pk1: "Note#1", sk1: "Note" };
+
+test("signedCursorCodec should reject cursors it did not sign", () => {
+  const codec = signedCursorCodec({ secret: "secret" });
+  const cursor = codec.encode(key);
+  expect(codec.decode(cursor)).toEqual(key);
+
+  const forged = base64CursorCodec.encode({ ...key, pk1: "Note#2" });
+  const [, signature] = cursor.split(".");
+  expect(() => codec.decode(`${forged}.${signature}`)).toThrow(
+    "Invalid cursor, the cursor signature is invalid"
+  );
+  expect(() => signedCursorCodec({ secret: "other" }).decode(cursor)).toThrow(
+    "Invalid cursor, the cursor signature is invalid"
+  );
+  expect(() => codec.decode(base64CursorCodec.encode(key))).toThrow(
+    "Invalid cursor, the cursor signature is invalid"
+  );
+});
+
+test("signedCursorCodec should encrypt cursors with an encryptionKey", () => {
+  const codec = signedCursorCodec({ secret: "secret", encryptionKey: "key" });
+  const cursor = codec.encode(key);
+
+  expect(
+    Buffer.from(cursor.split(".")[0], "base64url").toString()
+  ).not.toContain("Note#1");
+  expect(codec.decode(cursor)).toEqual(key);
+  expect(() =>
+    signedCursorCodec({ secret: "secret", encryptionKey: "other" }).decode(
+      cursor
+    )
+  ).toThrow("Invalid cursor, the cursor could not be decrypted");
+});
+
+test("queries should page with signed cursors", async () => {
+  const repo = getNoteRepo();
+  await repo.putMany([
+    { id: "1", tenant: "a" },
+    { id: "2", tenant: "a" },
+    { id: "3", tenant: "a" },
+  ]);
+
+  const query = repo.query("tenant").where({ tenant: "a" }).limit(2);
+  const first = await query.exec();
+  expect(first.lastCursor).toMatch(/^[\w-]+\.[\w-]+$/);
+  const second = await query.cursor(first.lastCursor!).exec();
+  expect(second.Items).toEqual([{ id: "3", tenant: "a" }]);
+
+  await expect(
+    query.cursor(first.encodeCursor(first.Items[0])).exec()
+  ).resolves.toMatchObject({ Items: [{ id: "2" }, { id: "3" }] });
+});
+
+test("queries should reject cursors of another index or partition", async () => {
+  const repo = getNoteRepo(base64CursorCodec);
+  await repo.putMany([
+    { id: "1", tenant: "a" },
+    { id: "2", tenant: "b" },
+  ]);
+  const { encodeCursor } = await repo
+    .query("tenant")
+    .where({ tenant: "b" })
+    .exec();
+  const cursorOfB = encodeCursor({ id: "2", tenant: "b" });
+
+  await expect(
+    repo.query("tenant").where({ tenant: "a" }).cursor(cursorOfB).exec()
+  ).rejects.toMatchObject({
+    name: "single-table-InvalidCursorError",
+    message:
+      "Invalid cursor, it is a cursor of another partition than the one being queried",
+  });
+  await expect(
+    repo.query("tenant").where({ tenant: "a" }).cursor(cursorOfB).count()
+  ).rejects.toMatchObject({ name: "single-table-InvalidCursorError" });
+  expect(() =>
+    repo
+      .query("primary")
+      .where({ id: "1" })
+      .cursor(base64CursorCodec.encode(key))
+      .build()
+  ).not.toThrow();
+  expect(() =>
+    repo
+      .query("tenant")
+      .where({ tenant: "a" })
+      .cursor(base64CursorCodec.encode(key))
+      .build()
+  ).toThrow("Invalid cursor, it is not a cursor of index (pk2, sk2) of Note");
+  expect(() => repo.query("tenant").cursor("not a cursor")).toThrow(
+    "Invalid cursor, the cursor could not be decoded"
+  );
+});
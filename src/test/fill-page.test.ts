@@ -0,0 +1,97 @@
+import { z } from "zod";
+import { Repository } from "../repository";
+import { getDocumentClient } from "./utils/getDocumentClient";
+
+const getNoteRepo = () =>
+  new Repository({
+    tableName: "table1",
+    typeName: "Note",
+    schema: z.object({
+      id: z.string(),
+      owner: z.string(),
+      stars: z.number(),
+    }),
+    primaryIndex: {
+      tag: "primary",
+      pk: "pk1",
+      sk: "sk1",
+      fields: ["id"],
+    },
+    secondaryIndexes: {
+      owner: {
+        pk: "pk2",
+        sk: "sk2",
+        fields: ["owner", "id"],
+        indexName: "gsi1",
+      },
+    },
+    documentClient: getDocumentClient(),
+  });
+
+const stars = (res: { Items: { stars: number }[] }) =>
+  res.Items.map((note) => note.stars);
+
+beforeEach(async () => {
+  await getNoteRepo().putMany(
+    [1, 2, 3, 4, 5, 6, 7, 8, 9].map((i) => ({
+      id: `${i}`,
+      owner: "jim",
+      stars: i,
+    }))
+  );
+});
+
+test("fillPage should keep querying until the page is full", async () => {
+  const query = getNoteRepo()
+    .query("owner")
+    .where({ owner: "jim" })
+    .filter("stars", ">", 6)
+    .limit(2);
+
+  const page = await query.exec();
+  expect(page.Items).toEqual([]);
+  expect(page.hasNextPage).toBe(true);
+
+  const filled = await query.exec({ fillPage: true });
+  expect(stars(filled)).toEqual([7, 8]);
+  expect(filled.hasNextPage).toBe(true);
+
+  const next = await query.cursor(filled.lastCursor!).exec({ fillPage: true });
+  expect(stars(next)).toEqual([9]);
+  expect(next.hasNextPage).toBe(false);
+});
+
+test("fillPage should return the cursor of the last returned item", async () => {
+  const query = getNoteRepo()
+    .query("owner")
+    .where({ owner: "jim" })
+    .filter({ stars: ["IN", [2, 3, 4]] })
+    .limit(2);
+
+  const filled = await query.exec({ fillPage: true });
+  expect(stars(filled)).toEqual([2, 3]);
+  expect(filled.lastCursor).toBe(filled.encodeCursor(filled.Items[1]));
+  expect(filled.LastEvaluatedKey).toEqual({
+    pk1: "Note#3",
+    sk1: "Note",
+    pk2: "Note#jim",
+    sk2: "Note#3",
+  });
+
+  const next = await query.cursor(filled.lastCursor!).exec({ fillPage: true });
+  expect(stars(next)).toEqual([4]);
+  expect(next.hasNextPage).toBe(false);
+});
+
+test("fillPage should stop after maxReads queries", async () => {
+  const page = await getNoteRepo()
+    .query("owner")
+    .where({ owner: "jim" })
+    .filter("stars", ">", 100)
+    .limit(2)
+    .exec({ fillPage: true, maxReads: 2 });
+
+  expect(page.Items).toEqual([]);
+  expect(page.ScannedCount).toBe(4);
+  expect(page.hasNextPage).toBe(true);
+});
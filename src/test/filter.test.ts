@@ -0,0 +1,94 @@
+import { z } from "zod";
+import { Repository } from "../repository";
+import { getDocumentClient } from "./utils/getDocumentClient";
+
+const getTaskRepo = () =>
+  new Repository({
+    tableName: "table1",
+    typeName: "Task",
+    schema: z.object({
+      id: z.string(),
+      owner: z.string(),
+      status: z.enum(["todo", "doing", "done"]),
+      tags: z.array(z.string()),
+      archivedAt: z.string().optional(),
+    }),
+    primaryIndex: {
+      tag: "primary",
+      pk: "pk1",
+      sk: "sk1",
+      fields: ["id"],
+    },
+    secondaryIndexes: {
+      owner: {
+        pk: "pk2",
+        sk: "sk2",
+        fields: ["owner", "id"],
+        indexName: "gsi1",
+      },
+    },
+    documentClient: getDocumentClient(),
+  });
+
+const ids = (items: { id: string }[]) => items.map((item) => item.id);
+
+test("filter should accept nested conditions", async () => {
+  const repo = getTaskRepo();
+  await repo.putMany([
+    { id: "1", owner: "jim", status: "todo", tags: ["urgent"] },
+    { id: "2", owner: "jim", status: "doing", tags: [] },
+    { id: "3", owner: "jim", status: "done", tags: ["a", "b", "c"] },
+    {
+      id: "4",
+      owner: "jim",
+      status: "todo",
+      tags: [],
+      archivedAt: "2024-01-01",
+    },
+  ]);
+  const query = repo.query("owner").where({ owner: "jim" });
+
+  const { Items } = await query
+    .filter({
+      or: [{ tags: ["CONTAINS", "urgent"] }, { size: { tags: [">", 2] } }],
+    })
+    .exec();
+  expect(ids(Items)).toEqual(["1", "3"]);
+
+  const { Items: open } = await query
+    .filter({ status: ["IN", ["todo", "doing"]] })
+    .filter({ not: { attributeExists: "archivedAt" } })
+    .exec();
+  expect(ids(open)).toEqual(["1", "2"]);
+
+  const { Items: typed } = await query
+    .filter({ attributeType: { archivedAt: "S" } })
+    .filter("status", "=", "todo")
+    .exec();
+  expect(ids(typed)).toEqual(["4"]);
+});
+
+test("filter conditions should be joined with comparison filters", () => {
+  const { FilterExpression } = getTaskRepo()
+    .query("owner")
+    .where({ owner: "jim" })
+    .filter("status", "<>", "done")
+    .filter({ or: [{ owner: ["=", "jim"] }, { tags: ["CONTAINS", "a"] }] })
+    .build();
+
+  expect(FilterExpression).toBe(
+    "(#attr2 <> :value2) AND ((#attr3 = :value3) OR (contains(#attr4, :value4)))"
+  );
+});
+
+test("filter conditions should be type safe", () => {
+  const query = getTaskRepo().query("owner");
+
+  // @ts-expect-error status is not a number
+  query.filter({ status: ["=", 1] });
+  // @ts-expect-error only lists and strings can contain a value
+  query.filter({ archivedAt: ["CONTAINS", 1] });
+  // @ts-expect-error missing is not a field
+  query.filter({ attributeExists: "missing" });
+  query.filter({ tags: ["CONTAINS", "a"], status: ["IN", ["todo", "done"]] });
+});
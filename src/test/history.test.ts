@@ -0,0 +1,203 @@
+import { z } from "zod";
+import sinon from "sinon";
+import {
+  DeleteCommand,
+  DeleteCommandInput,
+  PutCommand,
+  TransactWriteCommand,
+  UpdateCommand,
+  UpdateCommandInput,
+} from "@aws-sdk/lib-dynamodb";
+import { Repository } from "../repository";
+import { getDocumentClient } from "./utils/getDocumentClient";
+
+/**
+ * dynalite does not support TransactWriteItems, so this client sends
+ * each operation of a transaction on its own, in order
+ */
+function getDocumentClientWithTransactions() {
+  const ddb = getDocumentClient();
+  const send = ddb.send.bind(ddb) as (command: unknown) => Promise<unknown>;
+  sinon.stub(ddb, "send").callsFake(async (command: unknown) => {
+    if (!(command instanceof TransactWriteCommand)) {
+      return send(command);
+    }
+    const items = command.input.TransactItems || [];
+    for (const [index, item] of items.entries()) {
+      await send(
+        item.Put
+          ? new PutCommand(item.Put)
+          : item.Update
+          ? new UpdateCommand(item.Update as UpdateCommandInput)
+          : new DeleteCommand(item.Delete as DeleteCommandInput)
+      ).catch((e) => {
+        throw Object.assign(new Error("Transaction cancelled"), {
+          name: "TransactionCanceledException",
+          CancellationReasons: items.map((_, i) => ({
+            Code: i === index ? e.name.replace(/Exception$/, "") : "None",
+          })),
+        });
+      });
+    }
+    return {};
+  });
+  return ddb;
+}
+
+const getDocRepo = () =>
+  new Repository({
+    tableName: "table1",
+    typeName: "Doc",
+    schema: z.object({
+      id: z.string(),
+      title: z.string(),
+      editor: z.string(),
+    }),
+    primaryIndex: {
+      tag: "primary",
+      pk: "pk1",
+      sk: "sk1",
+      fields: ["id"],
+    },
+    history: true,
+    documentClient: getDocumentClientWithTransactions(),
+  });
+
+test("every write should record the previous version", async () => {
+  const repo = getDocRepo();
+  await repo.put({ id: "1", title: "a", editor: "jim" });
+  await repo.merge({ id: "1", title: "b", editor: "pam" });
+  await repo.mutate({ id: "1", title: "c" });
+  await repo.delete({ id: "1" });
+
+  const history = await repo.history({ id: "1" });
+  expect(history.map(({ action, item }) => ({ action, item }))).toEqual([
+    { action: "delete", item: { id: "1", title: "c", editor: "pam" } },
+    { action: "mutate", item: { id: "1", title: "b", editor: "pam" } },
+    { action: "put", item: { id: "1", title: "a", editor: "jim" } },
+  ]);
+  expect(history[0].recordedAt >= history[1].recordedAt).toBe(true);
+  await expect(repo.get({ id: "1" })).resolves.toBeNull();
+});
+
+test("mutate should still return the updated item", async () => {
+  const repo = getDocRepo();
+  await repo.put({ id: "1", title: "a", editor: "jim" });
+  await expect(repo.mutate({ id: "1", title: "b" })).resolves.toEqual({
+    id: "1",
+    title: "b",
+    editor: "jim",
+  });
+  await expect(repo.mutate({ id: "2", title: "b" })).resolves.toBeNull();
+  await expect(repo.history({ id: "2" })).resolves.toEqual([]);
+});
+
+test("failed conditions should not record history", async () => {
+  const repo = getDocRepo();
+  await repo.put({ id: "1", title: "a", editor: "jim" });
+  await expect(
+    repo.put(
+      { id: "1", title: "b", editor: "jim" },
+      { condition: { editor: ["=", "pam"] } }
+    )
+  ).rejects.toMatchObject({
+    name: "single-table-ConditionalCheckFailedError",
+  });
+  await expect(repo.history({ id: "1" })).resolves.toEqual([]);
+});
+
+test("snapshots should not be returned by queries of the item", async () => {
+  const repo = getDocRepo();
+  await repo.put({ id: "1", title: "a", editor: "jim" });
+  await repo.put({ id: "1", title: "b", editor: "jim" });
+
+  await expect(
+    repo.query("primary").where({ id: "1" }).exec()
+  ).resolves.toMatchObject({ Items: [{ id: "1", title: "b" }] });
+  await expect(repo.history({ id: "1" })).resolves.toMatchObject([
+    { item: { title: "a" } },
+  ]);
+});
+
+test("a write landing after the item was read should be recorded and the write retried", async () => {
+  const repo = getDocRepo();
+  const other = getDocRepo();
+  await repo.put({ id: "1", title: "a", editor: "jim" });
+
+  const send = repo.ddb.send.bind(repo.ddb) as (
+    command: unknown
+  ) => Promise<unknown>;
+  let interfered = false;
+  repo.ddb.send = (async (command: unknown) => {
+    if (command instanceof TransactWriteCommand && !interfered) {
+      interfered = true;
+      await other.mutate({ id: "1", title: "b" });
+    }
+    return send(command);
+  }) as typeof repo.ddb.send;
+
+  await expect(repo.mutate({ id: "1", title: "c" })).resolves.toMatchObject({
+    title: "c",
+  });
+  const history = await repo.history({ id: "1" });
+  expect(history.map(({ item }) => item.title)).toEqual(["b", "a"]);
+});
+
+test("putExpression, putMany and deleteMany should record the previous version", async () => {
+  const repo = getDocRepo();
+  await repo.put({ id: "1", title: "a", editor: "jim" });
+  await expect(
+    repo.putExpression({ id: "1", title: "b", editor: "jim" })
+  ).resolves.toEqual({ id: "1", title: "b", editor: "jim" });
+  await repo.putMany([
+    { id: "1", title: "c", editor: "jim" },
+    { id: "2", title: "a", editor: "pam" },
+  ]);
+  await expect(
+    repo.putManySettled([{ id: "1", title: "d", editor: "jim" }])
+  ).resolves.toMatchObject([{ status: "fulfilled" }]);
+  await repo.deleteMany([{ id: "1" }, { id: "2" }]);
+
+  const history = await repo.history({ id: "1" });
+  expect(history.map(({ action, item }) => [action, item.title])).toEqual([
+    ["delete", "d"],
+    ["put", "c"],
+    ["put", "b"],
+    ["put", "a"],
+  ]);
+  await expect(repo.history({ id: "2" })).resolves.toMatchObject([
+    { action: "delete", item: { title: "a" } },
+  ]);
+});
+
+test("concurrent writes should each be recorded", async () => {
+  const repo = getDocRepo();
+  await repo.put({ id: "1", title: "a", editor: "jim" });
+
+  // both writes read the item before either of them writes it
+  const send = repo.ddb.send.bind(repo.ddb) as (
+    command: unknown
+  ) => Promise<unknown>;
+  const held: (() => void)[] = [];
+  repo.ddb.send = (async (command: unknown) => {
+    if (command instanceof TransactWriteCommand && held.length < 2) {
+      await new Promise<void>((resolve) => {
+        held.push(resolve);
+        if (held.length === 2) {
+          held.forEach((release) => release());
+        }
+      });
+    }
+    return send(command);
+  }) as typeof repo.ddb.send;
+
+  await Promise.all([
+    repo.mutate({ id: "1", title: "b" }),
+    repo.mutate({ id: "1", title: "c" }),
+  ]);
+
+  const current = await repo.get({ id: "1" });
+  const replaced = current?.title === "b" ? "c" : "b";
+  const history = await repo.history({ id: "1" });
+  expect(history.map(({ item }) => item.title)).toEqual([replaced, "a"]);
+});
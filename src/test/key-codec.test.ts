@@ -0,0 +1,116 @@
+import { z } from "zod";
+import { Repository } from "../repository";
+import { keyCodecs } from "../key-codec";
+import { getDocumentClient } from "./utils/getDocumentClient";
+
+test("number keys should sort in numeric order", () => {
+  const codec = keyCodecs.number();
+  const numbers = [10, 9, -1, -1.5, -1.55, 0, 0.5, 1.05, 1.5, -100, 2e15];
+
+  const byKey = [...numbers].sort((a, b) =>
+    codec.encode(a) < codec.encode(b) ? -1 : 1
+  );
+  expect(byKey).toEqual([...numbers].sort((a, b) => a - b));
+  numbers.forEach((n) => expect(codec.decode(codec.encode(n))).toBe(n));
+
+  expect(codec.encode(9)).toBe("p0000000000000009");
+  expect(() => keyCodecs.number({ digits: 2 }).encode(100)).toThrow(
+    "SingleTableKeyCodecError: 100 cannot be encoded as a key with 2 digits"
+  );
+});
+
+test("string, date and boolean keys should round trip", () => {
+  const string = keyCodecs.string();
+  ["a#b", "100%", "%23", "#%#"].forEach((s) => {
+    expect(string.encode(s)).not.toContain("#");
+    expect(string.decode(string.encode(s))).toBe(s);
+  });
+
+  const date = keyCodecs.date({ decodeAs: "string" });
+  expect(date.encode("2024-01-02T03:04:05+01:00")).toBe(
+    "2024-01-02T02:04:05.000Z"
+  );
+  expect(keyCodecs.date().decode("2024-01-02T02:04:05.000Z")).toEqual(
+    new Date("2024-01-02T02:04:05.000Z")
+  );
+
+  const boolean = keyCodecs.boolean();
+  expect(boolean.decode(boolean.encode(true))).toBe(true);
+  expect(boolean.decode(boolean.encode(false))).toBe(false);
+});
+
+const getScoreRepo = () =>
+  new Repository({
+    tableName: "table1",
+    typeName: "Score",
+    schema: z.object({
+      id: z.string(),
+      game: z.string(),
+      points: z.number(),
+    }),
+    primaryIndex: {
+      tag: "primary",
+      pk: "pk1",
+      sk: "sk1",
+      fields: ["id"],
+    },
+    secondaryIndexes: {
+      game: {
+        pk: "pk2",
+        sk: "sk2",
+        fields: ["game", "points", "id"],
+        indexName: "gsi1",
+      },
+    },
+    keyCodecs: {
+      game: keyCodecs.string(),
+      points: keyCodecs.number(),
+    },
+    documentClient: getDocumentClient(),
+  });
+
+test("keyCodecs should be used for writes, where() and cursors", async () => {
+  const repo = getScoreRepo();
+  await repo.putMany(
+    [9, 10, -3, 100, 0].map((points, i) => ({
+      id: `${i}`,
+      game: "tic#tac",
+      points,
+    }))
+  );
+
+  const query = repo.query("game").where({ game: "tic#tac" }).limit(3);
+  const first = await query.exec();
+  expect(first.Items.map((s) => s.points)).toEqual([-3, 0, 9]);
+  const second = await query.cursor(first.lastCursor!).exec();
+  expect(second.Items.map((s) => s.points)).toEqual([10, 100]);
+
+  await expect(
+    repo.query("game").where({ game: "tic#tac", points: 10 }).exec()
+  ).resolves.toMatchObject({ Items: [{ id: "1" }] });
+  await expect(
+    repo.query("game").whereGreaterThan({ game: "tic#tac", points: 9 }).exec()
+  ).resolves.toMatchObject({ Items: [{ points: 10 }, { points: 100 }] });
+});
+
+test("decodeIndexKey should decode the fields of a key", () => {
+  const repo = getScoreRepo();
+  const index = repo.getIndexByTag("game");
+  const key = repo.mapper.getIndexKey(
+    { id: "1", game: "tic#tac", points: -3 },
+    index
+  );
+
+  expect(key).toEqual({
+    pk2: "Score#tic%23tac",
+    sk2: "Score#n9999999999999996~#1",
+  });
+  expect(repo.mapper.decodeIndexKey(key, index)).toEqual({
+    game: "tic#tac",
+    points: -3,
+    id: "1",
+  });
+  expect(
+    repo.mapper.decodeIndexKey({ pk2: "Score#chess", sk2: "Score" }, index)
+  ).toEqual({ game: "chess" });
+});
@@ -0,0 +1,92 @@
+import { z } from "zod";
+import { Repository } from "../repository";
+import { getDocumentClient } from "./utils/getDocumentClient";
+
+const getTaskRepo = () =>
+  new Repository({
+    tableName: "table1",
+    typeName: "Task",
+    schema: z.object({
+      id: z.string(),
+      owner: z.string(),
+    }),
+    primaryIndex: {
+      tag: "primary",
+      pk: "pk1",
+      sk: "sk1",
+      fields: ["id"],
+    },
+    secondaryIndexes: {
+      owner: {
+        pk: "pk2",
+        sk: "sk2",
+        fields: ["owner", "id"],
+        indexName: "gsi1",
+      },
+    },
+    documentClient: getDocumentClient(),
+  });
+
+const ids = (connection: { edges: { node: { id: string } }[] }) =>
+  connection.edges.map((edge) => edge.node.id);
+
+test("paginate should page forwards and backwards", async () => {
+  const repo = getTaskRepo();
+  await repo.putMany(
+    ["1", "2", "3", "4", "5"].map((id) => ({ id, owner: "jim" }))
+  );
+  const query = repo.query("owner").where({ owner: "jim" });
+
+  const first = await query.paginate({ first: 2 });
+  expect(ids(first)).toEqual(["1", "2"]);
+  expect(first.pageInfo).toMatchObject({
+    hasNextPage: true,
+    hasPreviousPage: false,
+    startCursor: first.edges[0].cursor,
+    endCursor: first.edges[1].cursor,
+  });
+
+  const second = await query.paginate({
+    first: 2,
+    after: first.pageInfo.endCursor,
+  });
+  expect(ids(second)).toEqual(["3", "4"]);
+  expect(second.pageInfo.hasPreviousPage).toBe(true);
+
+  const back = await query.paginate({
+    last: 2,
+    before: second.pageInfo.startCursor,
+  });
+  expect(ids(back)).toEqual(["1", "2"]);
+  expect(back.pageInfo.hasNextPage).toBe(true);
+
+  const last = await query.paginate({ last: 2 });
+  expect(ids(last)).toEqual(["4", "5"]);
+  expect(last.pageInfo).toMatchObject({
+    hasNextPage: false,
+    hasPreviousPage: true,
+  });
+
+  const middle = await query.paginate({
+    last: 1,
+    before: last.pageInfo.startCursor,
+  });
+  expect(ids(middle)).toEqual(["3"]);
+  expect(middle.edges[0].cursor).toBe(second.edges[0].cursor);
+
+  await expect(query.sort("desc").paginate({ last: 2 })).resolves.toMatchObject(
+    {
+      edges: [{ node: { id: "2" } }, { node: { id: "1" } }],
+    }
+  );
+});
+
+test("paginate should not mix forward and backward arguments", async () => {
+  const query = getTaskRepo().query("owner").where({ owner: "jim" });
+
+  await expect(query.paginate({ first: 1, last: 1 })).rejects.toMatchObject({
+    name: "single-table-Error",
+    message:
+      "paginate pages forwards with first and after or backwards with last and before, not both",
+  });
+});
@@ -162,3 +162,40 @@ Object {
 }
 `);
 });
+
+test("should format BETWEEN and IN conditions", () => {
+  const {
+    KeyConditionExpression,
+    FilterExpression,
+    ExpressionAttributeValues,
+  } = new QueryBuilder()
+    .table("MyTable")
+    .where("Country", "=", "USA")
+    .where("Name", "BETWEEN", ["A", "M"])
+    .filter("Age", "IN", [16, 17, 18])
+    .build();
+
+  expect(KeyConditionExpression).toBe(
+    "#attr0 = :value0 and #attr1 BETWEEN :value1 AND :value2"
+  );
+  expect(FilterExpression).toBe("#attr2 IN (:value3, :value4, :value5)");
+  expect(ExpressionAttributeValues).toEqual({
+    ":value0": "USA",
+    ":value1": "A",
+    ":value2": "M",
+    ":value3": 16,
+    ":value4": 17,
+    ":value5": 18,
+  });
+});
+
+test("should reject conditions that are invalid in a key condition", () => {
+  const builder = new QueryBuilder().table("MyTable");
+
+  expect(() => builder.where("Name", "IN", ["A", "B"]).build()).toThrow(
+    "IN cannot be used in the key condition of Name, use a filter instead"
+  );
+  expect(() => builder.where("Name", "BETWEEN", "A").build()).toThrow(
+    "BETWEEN expects a [lower, upper] pair of values for Name"
+  );
+});
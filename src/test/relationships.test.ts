@@ -0,0 +1,189 @@
+import { z } from "zod";
+import { expectTypeOf } from "expect-type";
+import { Repository } from "../repository";
+import { getDocumentClient } from "./utils/getDocumentClient";
+
+function getRepos() {
+  const userRepo = new Repository({
+    tableName: "THINGS_TABLE",
+    typeName: "User",
+    schema: z.object({
+      id: z.string(),
+      orgId: z.string(),
+      name: z.string(),
+    }),
+    primaryIndex: {
+      tag: "primary",
+      pk: "pk0",
+      sk: "sk0",
+      fields: ["id"],
+    },
+    secondaryIndexes: {
+      orgId: {
+        pk: "pk1",
+        sk: "sk1",
+        fields: ["orgId", "id"],
+        indexName: "gsi1",
+      },
+    },
+    documentClient: getDocumentClient(),
+  });
+  const projectRepo = new Repository({
+    tableName: "THINGS_TABLE",
+    typeName: "Project",
+    schema: z.object({
+      id: z.string(),
+      title: z.string(),
+    }),
+    primaryIndex: {
+      tag: "primary",
+      pk: "pk0",
+      sk: "sk0",
+      fields: ["id"],
+    },
+    documentClient: getDocumentClient(),
+  });
+  const contributorRepo = new Repository({
+    tableName: "THINGS_TABLE",
+    typeName: "Contributor",
+    schema: z.object({
+      userId: z.string(),
+      projectId: z.string(),
+    }),
+    primaryIndex: {
+      tag: "primary",
+      pk: "pk0",
+      sk: "sk0",
+      fields: ["userId", "projectId"],
+    },
+    secondaryIndexes: {
+      projectId: {
+        pk: "pk1",
+        sk: "sk1",
+        fields: ["projectId", "userId"],
+        indexName: "gsi1",
+      },
+    },
+    documentClient: getDocumentClient(),
+  });
+  const orgRepo = new Repository({
+    tableName: "THINGS_TABLE",
+    typeName: "Org",
+    schema: z.object({
+      id: z.string(),
+      name: z.string(),
+    }),
+    primaryIndex: {
+      tag: "primary",
+      pk: "pk0",
+      sk: "sk0",
+      fields: ["id"],
+    },
+    documentClient: getDocumentClient(),
+  }).hasMany("members", {
+    repository: userRepo,
+    index: "orgId",
+    fields: { orgId: "id" },
+  });
+  const contributingRepo = userRepo.hasManyThrough("projects", {
+    through: contributorRepo,
+    index: "primary",
+    fields: { userId: "id" },
+    repository: projectRepo,
+    targetFields: { id: "projectId" },
+  });
+
+  return {
+    orgRepo,
+    userRepo: contributingRepo,
+    projectRepo,
+    contributorRepo,
+  };
+}
+
+test("related should query one to many relationships", async () => {
+  const { orgRepo, userRepo } = getRepos();
+  const org = await orgRepo.put({ id: "o1", name: "acme" });
+  await userRepo.putMany([
+    { id: "u1", orgId: "o1", name: "jim" },
+    { id: "u2", orgId: "o1", name: "pam" },
+    { id: "u3", orgId: "o2", name: "dwight" },
+  ]);
+
+  const members = orgRepo.related("members").of(org);
+  const firstPage = await members.limit(1).exec();
+  expectTypeOf(firstPage.Items).toEqualTypeOf<
+    { id: string; orgId: string; name: string }[]
+  >();
+  expect(firstPage.Items).toEqual([{ id: "u1", orgId: "o1", name: "jim" }]);
+  expect(firstPage.lastCursor).toBeDefined();
+
+  const secondPage = await members.cursor(firstPage.lastCursor!).exec();
+  expect(secondPage.Items).toEqual([{ id: "u2", orgId: "o1", name: "pam" }]);
+});
+
+test("related should query many to many relationships", async () => {
+  const { userRepo, projectRepo, contributorRepo } = getRepos();
+  const user = await userRepo.put({ id: "u1", orgId: "o1", name: "jim" });
+  await projectRepo.putMany([
+    { id: "p1", title: "paper" },
+    { id: "p2", title: "printers" },
+    { id: "p3", title: "sales" },
+  ]);
+  await contributorRepo.putMany([
+    { userId: "u1", projectId: "p1" },
+    { userId: "u1", projectId: "p2" },
+    { userId: "u2", projectId: "p3" },
+  ]);
+
+  const projects = userRepo.related("projects").of(user);
+  const res = await projects.exec();
+  expectTypeOf(res.Items).toEqualTypeOf<{ id: string; title: string }[]>();
+  expect(res.Items).toEqual([
+    { id: "p1", title: "paper" },
+    { id: "p2", title: "printers" },
+  ]);
+
+  const pages = [];
+  for await (const page of projects.limit(1).execAll()) {
+    pages.push(page);
+  }
+  expect(pages).toEqual([
+    [{ id: "p1", title: "paper" }],
+    [{ id: "p2", title: "printers" }],
+  ]);
+});
+
+test("relationships must map the partition key of their index", () => {
+  const { orgRepo, userRepo } = getRepos();
+  expect(() =>
+    orgRepo.hasMany("users", {
+      repository: userRepo,
+      index: "orgId",
+      fields: { name: "name" },
+    })
+  ).toThrowErrorMatchingInlineSnapshot(
+    `"The partition key fields of index orgId of User must be mapped to a field of the parent, missing: orgId"`
+  );
+  // @ts-expect-error there is no relationship named owners
+  expect(() => orgRepo.related("owners")).toThrow();
+});
+
+test("relationships should be declared on a copy of the repository", () => {
+  const { orgRepo, userRepo } = getRepos();
+  const withOwners = orgRepo.hasMany("owners", {
+    repository: userRepo,
+    index: "orgId",
+    fields: { orgId: "id" },
+  });
+
+  expect(withOwners).not.toBe(orgRepo);
+  expect(withOwners.related("owners")).toBeDefined();
+  expect(withOwners.related("members")).toBe(orgRepo.related("members"));
+  // @ts-expect-error orgRepo has no relationship named owners
+  expect(() => orgRepo.related("owners")).toThrow();
+  expectTypeOf(withOwners.related("owners").of).parameter(0).toEqualTypeOf<{
+    id: string;
+    name: string;
+  }>();
+});
@@ -0,0 +1,108 @@
+import { z } from "zod";
+import { Repository } from "../repository";
+import { getDocumentClient } from "./utils/getDocumentClient";
+
+function getRepo(typeName: string) {
+  return new Repository({
+    tableName: "THINGS_TABLE",
+    typeName,
+    schema: z.object({ id: z.string(), name: z.string() }),
+    primaryIndex: {
+      tag: "primary",
+      pk: "pk0",
+      sk: "sk0",
+      fields: ["id"],
+    },
+    documentClient: getDocumentClient(),
+  });
+}
+
+function getRepos() {
+  return { userRepo: getRepo("User"), userGroupRepo: getRepo("UserGroup") };
+}
+
+const names = ["jim", "pam", "dwight", "angela", "kevin", "oscar", "stanley"];
+
+async function seed() {
+  const { userRepo, userGroupRepo } = getRepos();
+  await userRepo.putMany(names.map((name) => ({ id: name, name })));
+  await userGroupRepo.putMany([
+    { id: "sales", name: "sales" },
+    { id: "accounting", name: "accounting" },
+  ]);
+  return { userRepo, userGroupRepo };
+}
+
+async function collect<T>(iterator: AsyncGenerator<T[]>) {
+  const items: T[] = [];
+  for await (const page of iterator) {
+    items.push(...page);
+  }
+  return items;
+}
+
+test("scan should only return items of the repository", async () => {
+  const { userRepo, userGroupRepo } = await seed();
+
+  const users = await collect(userRepo.scan().limit(2).execAll());
+  expect(users.map((u) => u.name).sort()).toEqual([...names].sort());
+
+  const groups = await collect(userGroupRepo.scan().execAll());
+  expect(groups.map((g) => g.id).sort()).toEqual(["accounting", "sales"]);
+
+  const filtered = await collect(
+    userRepo.scan().filter("name", "BEGINS_WITH", "o").execAll()
+  );
+  expect(filtered).toEqual([{ id: "oscar", name: "oscar" }]);
+});
+
+test("scan should be resumable from the last cursor", async () => {
+  const { userRepo } = await seed();
+  const scan = userRepo.scan().limit(3);
+
+  const first = await scan.exec();
+  expect(first.hasNextPage).toBe(true);
+  const rest = await collect(scan.cursor(first.lastCursor!).execAll());
+  expect([...first.Items, ...rest].map((u) => u.name).sort()).toEqual(
+    [...names].sort()
+  );
+});
+
+test("parallel scans should resume every segment", async () => {
+  const { userRepo } = await seed();
+  const scan = userRepo.scan({ segments: 3 }).limit(1);
+
+  const first = await scan.exec();
+  expect(first.hasNextPage).toBe(true);
+  const rest = await collect(scan.cursor(first.lastCursor!).execAll());
+  expect([...first.Items, ...rest].map((u) => u.name).sort()).toEqual(
+    [...names].sort()
+  );
+
+  expect(() =>
+    userRepo.scan({ segments: 2 }).cursor(first.lastCursor!)
+  ).toThrowErrorMatchingInlineSnapshot(
+    `"cursor was not created by a scan with 2 segments"`
+  );
+});
+
+test("scan should build a filter on the typeName prefix", () => {
+  const { userRepo } = getRepos();
+  expect(userRepo.scan().filter("name", "=", "jim").build())
+    .toMatchInlineSnapshot(`
+Object {
+  "ExpressionAttributeNames": Object {
+    "#attr0": "sk0",
+    "#attr1": "name",
+  },
+  "ExpressionAttributeValues": Object {
+    ":value0": "User",
+    ":value1": "User#",
+    ":value2": "jim",
+  },
+  "FilterExpression": "(#attr0 = :value0 OR begins_with(#attr0, :value1)) AND (#attr1 = :value2)",
+  "Limit": 25,
+  "TableName": "THINGS_TABLE",
+}
+`);
+});
@@ -0,0 +1,144 @@
+import { z } from "zod";
+import { expectTypeOf } from "expect-type";
+import { Repository } from "../repository";
+import { batchGet } from "../batch-get";
+import { getDocumentClient } from "./utils/getDocumentClient";
+import { stubDocumentClient } from "./utils/stubDocumentClient";
+
+const getUserRepo = (documentClient = getDocumentClient()) =>
+  new Repository({
+    tableName: "table1",
+    typeName: "User",
+    schema: z.object({
+      id: z.string(),
+      orgId: z.string(),
+      name: z.string(),
+      bio: z.string(),
+    }),
+    primaryIndex: {
+      tag: "primary",
+      pk: "pk1",
+      sk: "sk1",
+      fields: ["id"],
+    },
+    secondaryIndexes: {
+      orgId: {
+        pk: "pk2",
+        sk: "sk2",
+        fields: ["orgId", "id"],
+        indexName: "gsi1",
+      },
+    },
+    softDelete: true,
+    documentClient,
+  });
+
+test("get with select should only return the selected fields", async () => {
+  const repo = getUserRepo();
+  await repo.put({ id: "1", orgId: "o1", name: "jim", bio: "paper" });
+
+  const user = await repo.get({ id: "1" }, { select: ["name"] });
+  expectTypeOf(user).toEqualTypeOf<{ name: string } | null>();
+  expect(user).toEqual({ name: "jim" });
+
+  await repo.delete({ id: "1" });
+  await expect(repo.get({ id: "1" }, { select: ["name"] })).resolves.toBe(null);
+  await expect(
+    repo.get({ id: "1" }, { select: ["name"], includeDeleted: true })
+  ).resolves.toEqual({ name: "jim" });
+});
+
+test("get with select should send a ProjectionExpression", async () => {
+  const { ddb, send } = stubDocumentClient();
+  send.returns(Promise.resolve({ Item: { name: "jim", bio: "paper" } }));
+  const repo = getUserRepo(ddb);
+
+  await repo.get({ id: "1" }, { select: ["name", "bio"] });
+  expect(send.getCall(0)?.args[0].input).toMatchInlineSnapshot(`
+Object {
+  "ExpressionAttributeNames": Object {
+    "#attr0": "name",
+    "#attr1": "bio",
+    "#attr2": "id",
+    "#attr3": "deletedAt",
+  },
+  "Key": Object {
+    "pk1": "User#1",
+    "sk1": "User",
+  },
+  "ProjectionExpression": "#attr0, #attr1, #attr2, #attr3",
+  "TableName": "table1",
+}
+`);
+});
+
+test("query select should only return the selected fields", async () => {
+  const repo = getUserRepo();
+  await repo.putMany([
+    { id: "1", orgId: "o1", name: "jim", bio: "paper" },
+    { id: "2", orgId: "o1", name: "pam", bio: "art" },
+  ]);
+
+  const query = repo.query("orgId").where({ orgId: "o1" }).select("name");
+  expect(query.build().ProjectionExpression).toBe("#attr2, #attr3, #attr4");
+
+  const { Items } = await query.exec();
+  expectTypeOf(Items).toEqualTypeOf<{ name: string }[]>();
+  expect(Items).toEqual([{ name: "jim" }, { name: "pam" }]);
+  await expect(query.count()).resolves.toBe(2);
+});
+
+test("batch.get with select should project every request of the table", async () => {
+  const repo = getUserRepo();
+  await repo.putMany([
+    { id: "1", orgId: "o1", name: "jim", bio: "paper" },
+    { id: "2", orgId: "o1", name: "pam", bio: "art" },
+  ]);
+
+  const [jim, pam] = await batchGet(repo.ddb, [
+    repo.batch.get({ id: "1" }, { select: ["name"] }),
+    repo.batch.get({ id: "2" }, { select: ["bio"] }),
+  ]);
+  // the selections of a table are merged
+  expect(jim).toEqual({
+    pk1: "User#1",
+    sk1: "User",
+    id: "1",
+    name: "jim",
+    bio: "paper",
+  });
+  expect(pam).toEqual({
+    pk1: "User#2",
+    sk1: "User",
+    id: "2",
+    name: "pam",
+    bio: "art",
+  });
+
+  const [full] = await batchGet(repo.ddb, [
+    repo.batch.get({ id: "1" }),
+    repo.batch.get({ id: "2" }, { select: ["bio"] }),
+  ]);
+  expect(full).toHaveProperty("orgId", "o1");
+});
+
+test("batchGet with parse should only return the selection of each request", async () => {
+  const repo = getUserRepo();
+  await repo.putMany([
+    { id: "1", orgId: "o1", name: "jim", bio: "paper" },
+    { id: "2", orgId: "o1", name: "pam", bio: "art" },
+  ]);
+
+  const [jim, pam, missing] = await batchGet(
+    repo.ddb,
+    [
+      repo.batch.get({ id: "1" }, { select: ["name"] }),
+      repo.batch.get({ id: "2" }, { select: ["bio"] }),
+      repo.batch.get({ id: "3" }),
+    ],
+    { parse: true }
+  );
+  expect(jim).toEqual({ name: "jim" });
+  expect(pam).toEqual({ bio: "art" });
+  expect(missing).toBeUndefined();
+});
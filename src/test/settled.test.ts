@@ -0,0 +1,114 @@
+import { getUserRepo } from "./utils/getUserRepo";
+import { stubDocumentClient } from "./utils/stubDocumentClient";
+
+test("putManySettled should write valid items and reject invalid ones", async () => {
+  const repo = getUserRepo();
+
+  const results = await repo.putManySettled([
+    { id: "1", name: "jim", age: 1 },
+    { id: "2", name: "pam", age: "not a number" } as any,
+    { id: "3", name: "dwight", age: 3 },
+  ]);
+
+  expect(results.map((r) => r.status)).toEqual([
+    "fulfilled",
+    "rejected",
+    "fulfilled",
+  ]);
+  expect(results[0]).toEqual({
+    status: "fulfilled",
+    value: { id: "1", name: "jim", age: 1 },
+  });
+  expect((results[1] as PromiseRejectedResult).reason.name).toBe(
+    "single-table-InputValidationError"
+  );
+  await expect(repo.get({ id: "2" })).resolves.toBeNull();
+  await expect(repo.get({ id: "3" })).resolves.toEqual({
+    id: "3",
+    name: "dwight",
+    age: 3,
+  });
+});
+
+test("putManySettled should reject the items whose writes failed", async () => {
+  const { ddb, send } = stubDocumentClient();
+  const repo = getUserRepo();
+  repo.ddb = ddb;
+  repo.args.batchOptions = { maxAttempts: 2, baseDelay: 0 };
+  const unprocessed = repo.batch.put({ id: "2", name: "pam", age: 2 });
+  send.onCall(0).returns(
+    Promise.resolve({
+      UnprocessedItems: { table1: [unprocessed.Operation] },
+    })
+  );
+  send.returns(
+    Promise.resolve({
+      UnprocessedItems: { table1: [unprocessed.Operation] },
+    })
+  );
+
+  const results = await repo.putManySettled([
+    { id: "1", name: "jim", age: 1 },
+    { id: "2", name: "pam", age: 2 },
+  ]);
+
+  expect(results[0].status).toBe("fulfilled");
+  const { reason } = results[1] as PromiseRejectedResult;
+  expect(reason.name).toBe("single-table-UnprocessedItemsError");
+  expect(reason.meta.unprocessed).toEqual([
+    { TableName: "table1", Key: { pk1: "User#2", sk1: "User" } },
+  ]);
+});
+
+test("deleteManySettled should wrap the errors of failed writes", async () => {
+  const { ddb, send } = stubDocumentClient();
+  const repo = getUserRepo();
+  repo.ddb = ddb;
+  const error = new Error("ProvisionedThroughputExceededException");
+  send.returns(Promise.reject(error));
+
+  const results = await repo.deleteManySettled([{ id: "1" }, { id: "2" }]);
+
+  expect(results[0].status).toBe("rejected");
+  const { reason } = results[0] as PromiseRejectedResult;
+  expect(reason.name).toBe("single-table-BatchWriteError");
+  expect(reason.message).toBe(
+    "batchWrite of 2 items failed: ProvisionedThroughputExceededException"
+  );
+  expect(reason.cause).toBe(error);
+  expect((results[1] as PromiseRejectedResult).reason).toBe(reason);
+});
+
+test("deleteManySettled should delete the items", async () => {
+  const repo = getUserRepo();
+  await repo.putMany([
+    { id: "1", name: "jim", age: 1 },
+    { id: "2", name: "pam", age: 2 },
+  ]);
+
+  await expect(
+    repo.deleteManySettled([{ id: "1" }, { id: "2" }])
+  ).resolves.toEqual([
+    { status: "fulfilled", value: true },
+    { status: "fulfilled", value: true },
+  ]);
+  await expect(repo.get({ id: "1" })).resolves.toBeNull();
+});
+
+test("deleteManySettled should match unprocessed keys in any attribute order", async () => {
+  const { ddb, send } = stubDocumentClient();
+  const repo = getUserRepo();
+  repo.ddb = ddb;
+  repo.args.batchOptions = { maxAttempts: 1 };
+  send.returns(
+    Promise.resolve({
+      UnprocessedItems: {
+        table1: [{ DeleteRequest: { Key: { sk1: "User", pk1: "User#2" } } }],
+      },
+    })
+  );
+
+  const results = await repo.deleteManySettled([{ id: "1" }, { id: "2" }]);
+
+  expect(results.map((r) => r.status)).toEqual(["fulfilled", "rejected"]);
+});
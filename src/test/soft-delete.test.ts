@@ -0,0 +1,202 @@
+import { z } from "zod";
+import { GetCommand } from "@aws-sdk/lib-dynamodb";
+import { Repository } from "../repository";
+import { getDocumentClient } from "./utils/getDocumentClient";
+import { stubDocumentClient } from "./utils/stubDocumentClient";
+
+const getNoteRepo = () =>
+  new Repository({
+    tableName: "table1",
+    typeName: "Note",
+    schema: z.object({
+      id: z.string(),
+      author: z.string(),
+      text: z.string(),
+    }),
+    primaryIndex: {
+      tag: "primary",
+      pk: "pk1",
+      sk: "sk1",
+      fields: ["id"],
+    },
+    secondaryIndexes: {
+      author: {
+        pk: "pk2",
+        sk: "sk2",
+        fields: ["author", "id"],
+        indexName: "gsi1",
+      },
+    },
+    softDelete: true,
+    documentClient: getDocumentClient(),
+  });
+
+const getRaw = (repo: ReturnType<typeof getNoteRepo>, id: string) =>
+  getDocumentClient()
+    .send(new GetCommand({ TableName: "table1", Key: repo.getKey({ id }) }))
+    .then((res) => res.Item);
+
+test("delete should mark the item and remove its secondary index keys", async () => {
+  const repo = getNoteRepo();
+  await repo.put({ id: "1", author: "jim", text: "a" });
+  await repo.put({ id: "2", author: "jim", text: "b" });
+
+  await expect(repo.delete({ id: "1" })).resolves.toBe(true);
+
+  const raw = await getRaw(repo, "1");
+  expect(raw).toMatchObject({ id: "1", deletedAt: expect.any(String) });
+  expect(raw).not.toHaveProperty("pk2");
+  expect(raw).not.toHaveProperty("sk2");
+
+  await expect(repo.get({ id: "1" })).resolves.toBeNull();
+  await expect(
+    repo.get({ id: "1" }, { includeDeleted: true })
+  ).resolves.toEqual({ id: "1", author: "jim", text: "a" });
+
+  const byAuthor = await repo.query("author").where({ author: "jim" }).exec();
+  expect(byAuthor.Items.map((i) => i.id)).toEqual(["2"]);
+
+  const primary = repo.query("primary").where({ id: "1" });
+  await expect(primary.exec()).resolves.toMatchObject({ Items: [] });
+  await expect(primary.includeDeleted().exec()).resolves.toMatchObject({
+    Items: [{ id: "1" }],
+  });
+});
+
+test("delete should not create items that do not exist", async () => {
+  const repo = getNoteRepo();
+  await expect(repo.delete({ id: "1" })).resolves.toBe(true);
+  await expect(getRaw(repo, "1")).resolves.toBeUndefined();
+});
+
+test("mutate should treat soft deleted items as missing", async () => {
+  const repo = getNoteRepo();
+  await repo.put({ id: "1", author: "jim", text: "a" });
+  await repo.delete({ id: "1" });
+
+  await expect(
+    repo.mutate({ id: "1", author: "pam", text: "b" })
+  ).resolves.toBeNull();
+  const raw = await getRaw(repo, "1");
+  expect(raw).toMatchObject({ author: "jim", text: "a" });
+  expect(raw).not.toHaveProperty("pk2");
+
+  const { Update } = repo.transact.mutate({ id: "1", text: "c" }).Operation;
+  expect(Update?.ConditionExpression).toMatchInlineSnapshot(
+    `"(attribute_exists(pk1) AND attribute_exists(sk1)) AND (attribute_not_exists(#attr0))"`
+  );
+  expect(Update?.ExpressionAttributeNames).toMatchInlineSnapshot(`
+Object {
+  "#attr0": "deletedAt",
+  "#attr1": "id",
+  "#attr2": "text",
+}
+`);
+});
+
+test("put with mode create should replace a soft deleted item", async () => {
+  const repo = getNoteRepo();
+  await repo.put({ id: "1", author: "jim", text: "a" }, { mode: "create" });
+  await repo.delete({ id: "1" });
+
+  await expect(
+    repo.put({ id: "1", author: "pam", text: "b" }, { mode: "create" })
+  ).resolves.toEqual({ id: "1", author: "pam", text: "b" });
+  await expect(repo.get({ id: "1" })).resolves.toEqual({
+    id: "1",
+    author: "pam",
+    text: "b",
+  });
+
+  await repo.delete({ id: "1" });
+  await expect(
+    repo.merge(
+      { id: "1", text: "c" },
+      { objectToPutIfNotExists: { id: "1", author: "dwight", text: "c" } }
+    )
+  ).resolves.toEqual({ id: "1", author: "dwight", text: "c" });
+  await expect(getRaw(repo, "1")).resolves.not.toHaveProperty("deletedAt");
+
+  // live items are still not replaced
+  await expect(
+    repo.put({ id: "1", author: "jim", text: "d" }, { mode: "create" })
+  ).rejects.toThrow();
+});
+
+test("deleteMany should soft delete every item", async () => {
+  const repo = getNoteRepo();
+  await repo.putMany([
+    { id: "1", author: "jim", text: "a" },
+    { id: "2", author: "jim", text: "b" },
+  ]);
+  await expect(repo.deleteMany([{ id: "1" }, { id: "2" }])).resolves.toEqual([
+    true,
+    true,
+  ]);
+  await expect(getRaw(repo, "2")).resolves.toHaveProperty("deletedAt");
+  await expect(
+    repo.query("author").where({ author: "jim" }).exec()
+  ).resolves.toMatchObject({ Items: [] });
+});
+
+test("restore should undelete the item and its index keys", async () => {
+  const repo = getNoteRepo();
+  await repo.put({ id: "1", author: "jim", text: "a" });
+  await repo.delete({ id: "1" });
+
+  await expect(repo.restore({ id: "1" })).resolves.toEqual({
+    id: "1",
+    author: "jim",
+    text: "a",
+  });
+  await expect(getRaw(repo, "1")).resolves.not.toHaveProperty("deletedAt");
+  await expect(repo.get({ id: "1" })).resolves.toMatchObject({ id: "1" });
+  await expect(
+    repo.query("author").where({ author: "jim" }).exec()
+  ).resolves.toMatchObject({ Items: [{ id: "1" }] });
+
+  await expect(repo.restore({ id: "2" })).resolves.toBeNull();
+});
+
+test("purge should delete the item for good", async () => {
+  const repo = getNoteRepo();
+  await repo.put({ id: "1", author: "jim", text: "a" });
+  await repo.delete({ id: "1" });
+  await expect(repo.purge({ id: "1" })).resolves.toBe(true);
+  await expect(getRaw(repo, "1")).resolves.toBeUndefined();
+  await expect(repo.restore({ id: "1" })).resolves.toBeNull();
+});
+
+test("deleteMany should soft delete with the batch concurrency", async () => {
+  const { ddb, send } = stubDocumentClient();
+  let inFlight = 0;
+  let maxInFlight = 0;
+  send.callsFake(async () => {
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    inFlight--;
+    return {};
+  });
+  const repo = getNoteRepo();
+  repo.ddb = ddb;
+  repo.args.batchOptions = { concurrency: 2 };
+
+  const ids = Array.from({ length: 5 }, (_, i) => ({ id: `${i}` }));
+  await expect(repo.deleteMany(ids)).resolves.toEqual(ids.map(() => true));
+
+  expect(send.callCount).toBe(5);
+  expect(maxInFlight).toBe(2);
+});
+
+test("transact.delete should mark the item instead of deleting it", () => {
+  const repo = getNoteRepo();
+  const { Operation } = repo.transact.delete({ id: "1" });
+
+  expect(Operation).not.toHaveProperty("Delete");
+  expect(Operation.Update?.Key).toEqual(repo.getKey({ id: "1" }));
+  expect(Operation.Update?.UpdateExpression).toMatch(/^set .* remove /);
+  expect(
+    Object.values(Operation.Update?.ExpressionAttributeNames ?? {})
+  ).toEqual(expect.arrayContaining(["deletedAt", "pk2", "sk2"]));
+});
@@ -0,0 +1,142 @@
+import { z } from "zod";
+import { Repository } from "../repository";
+import { getDocumentClient } from "./utils/getDocumentClient";
+
+const ddb = getDocumentClient();
+
+const noteRepo = new Repository({
+  tableName: "table1",
+  typeName: "Note",
+  schema: z.object({
+    id: z.string(),
+    owner: z.string(),
+    createdAt: z.string(),
+  }),
+  primaryIndex: {
+    tag: "primary",
+    pk: "pk1",
+    sk: "sk1",
+    fields: ["id"],
+  },
+  secondaryIndexes: {
+    owner: {
+      pk: "pk2",
+      sk: "sk2",
+      fields: ["owner", "createdAt", "id"],
+      indexName: "gsi1",
+    },
+  },
+  documentClient: ddb,
+});
+
+// stored in the same partition as the notes of an owner
+const reminderRepo = new Repository({
+  tableName: "table1",
+  typeName: "Reminder",
+  schema: z.object({
+    id: z.string(),
+    owner: z.string(),
+  }),
+  primaryIndex: {
+    tag: "primary",
+    pk: "pk1",
+    sk: "sk1",
+    fields: ["id"],
+  },
+  secondaryIndexes: {
+    owner: {
+      pk: "pk2",
+      sk: "sk2",
+      fields: ["owner", "id"],
+      indexName: "gsi1",
+      partitionKeyPrefix: "Note",
+    },
+  },
+  documentClient: ddb,
+});
+
+beforeEach(async () => {
+  await noteRepo.putMany([
+    { id: "1", owner: "jim", createdAt: "2023-12-31T23:00:00.000Z" },
+    { id: "2", owner: "jim", createdAt: "2024-01-01T10:00:00.000Z" },
+    { id: "3", owner: "jim", createdAt: "2024-01-31T10:00:00.000Z" },
+    { id: "4", owner: "jim", createdAt: "2024-02-01T10:00:00.000Z" },
+    { id: "5", owner: "pam", createdAt: "2024-01-15T10:00:00.000Z" },
+  ]);
+  await reminderRepo.put({ id: "6", owner: "jim" });
+});
+
+const ids = async (query: ReturnType<typeof noteRepo.query>) =>
+  (await query.exec()).Items.map((note) => note.id);
+
+test("whereBetween should include every item the end is a prefix of", async () => {
+  const query = noteRepo
+    .query("owner")
+    .whereBetween(
+      { owner: "jim", createdAt: "2024-01-01" },
+      { owner: "jim", createdAt: "2024-01-31" }
+    );
+  expect(query.build().KeyConditionExpression).toBe(
+    "#attr0 = :value0 and #attr1 BETWEEN :value1 AND :value2"
+  );
+  await expect(ids(query)).resolves.toEqual(["2", "3"]);
+
+  await expect(
+    ids(
+      noteRepo
+        .query("owner")
+        .whereBetween(
+          { owner: "jim", createdAt: "2024-01-01T10:00:00.000Z", id: "2" },
+          { owner: "jim", createdAt: "2024-01-31T10:00:00.000Z", id: "3" }
+        )
+    )
+  ).resolves.toEqual(["2", "3"]);
+});
+
+test("whereBetween should require start and end to share a partition", () => {
+  expect(() =>
+    noteRepo
+      .query("owner")
+      .whereBetween(
+        { owner: "jim", createdAt: "2024" },
+        { owner: "pam", createdAt: "2025" }
+      )
+  ).toThrow("whereBetween requires start and end to be in the same partition");
+  expect(() =>
+    noteRepo
+      .query("owner")
+      .whereBetween({ owner: "jim" }, { owner: "jim", createdAt: "2025" })
+  ).toThrow("requires the field createdAt");
+});
+
+test("whereGreaterThan should exclude the bound and other types", async () => {
+  await expect(
+    ids(
+      noteRepo
+        .query("owner")
+        .whereGreaterThan({ owner: "jim", createdAt: "2024-01" })
+    )
+  ).resolves.toEqual(["4"]);
+  await expect(
+    ids(
+      noteRepo.query("owner").whereGreaterThan({
+        owner: "jim",
+        createdAt: "2024-01-01T10:00:00.000Z",
+        id: "2",
+      })
+    )
+  ).resolves.toEqual(["3", "4"]);
+});
+
+test("whereBeginsWith should match the last field as a prefix", async () => {
+  await expect(
+    ids(
+      noteRepo
+        .query("owner")
+        .whereBeginsWith({ owner: "jim", createdAt: "2024-01" })
+    )
+  ).resolves.toEqual(["2", "3"]);
+  await expect(
+    ids(noteRepo.query("owner").whereBeginsWith({ owner: "jim" }))
+  ).resolves.toEqual(["1", "2", "3", "4"]);
+});
@@ -0,0 +1,143 @@
+import { z } from "zod";
+import {
+  getCloudFormationResource,
+  getCreateTableInput,
+  getJestDynaliteTable,
+  getTimeToLiveInput,
+} from "../table-definition";
+import { Table } from "../table";
+import { tableConfig } from "./utils/tableConfig";
+import { getDocumentClient } from "./utils/getDocumentClient";
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const dynaliteConfig = require("../../jest-dynalite-config");
+
+const table1Config = {
+  tableName: "table1",
+  primaryIndex: { pk: "pk1", sk: "sk1" },
+  secondaryIndexes: [{ indexName: "gsi1", pk: "pk2", sk: "sk2" }],
+};
+
+test("getCreateTableInput should match the tables used by the tests", () => {
+  expect(getCreateTableInput(tableConfig)).toEqual(
+    dynaliteConfig.tables.find(
+      (t: { TableName: string }) => t.TableName === "THINGS_TABLE"
+    )
+  );
+  expect(
+    getJestDynaliteTable(table1Config, {
+      billingMode: { readCapacityUnits: 1, writeCapacityUnits: 1 },
+    })
+  ).toEqual(
+    dynaliteConfig.tables.find(
+      (t: { TableName: string }) => t.TableName === "table1"
+    )
+  );
+});
+
+test("getCreateTableInput should support projections and used indexes", () => {
+  const table = new Table(tableConfig, getDocumentClient());
+  table.createRepository({
+    typeName: "User",
+    schema: z.object({ id: z.string(), name: z.string() }),
+    primaryIndex: { tag: "primary", pk: "pk0", sk: "sk0", fields: ["id"] },
+    secondaryIndexes: {
+      name: { indexName: "gsi2", pk: "pk2", sk: "sk2", fields: ["name"] },
+      id: { indexName: "gsi3", pk: "pk3", sk: "sk3", fields: ["id"] },
+    },
+  });
+
+  const input = getCreateTableInput(tableConfig, {
+    repositories: table.repositories,
+    projection: "KEYS_ONLY",
+    projections: { gsi3: { include: ["name"] } },
+  });
+  expect(input.AttributeDefinitions?.map((a) => a.AttributeName)).toEqual([
+    "pk0",
+    "sk0",
+    "pk2",
+    "sk2",
+    "pk3",
+    "sk3",
+  ]);
+  expect(
+    input.GlobalSecondaryIndexes?.map(({ IndexName, Projection }) => ({
+      IndexName,
+      Projection,
+    }))
+  ).toEqual([
+    { IndexName: "gsi2", Projection: { ProjectionType: "KEYS_ONLY" } },
+    {
+      IndexName: "gsi3",
+      Projection: { ProjectionType: "INCLUDE", NonKeyAttributes: ["name"] },
+    },
+  ]);
+});
+
+test("getCloudFormationResource should include time to live", () => {
+  expect(getTimeToLiveInput(table1Config)).toBeUndefined();
+  expect(getTimeToLiveInput(table1Config, { ttlAttribute: "ttl" })).toEqual({
+    TableName: "table1",
+    TimeToLiveSpecification: { AttributeName: "ttl", Enabled: true },
+  });
+  expect(getCloudFormationResource(table1Config, { ttlAttribute: "ttl" }))
+    .toMatchInlineSnapshot(`
+Object {
+  "Properties": Object {
+    "AttributeDefinitions": Array [
+      Object {
+        "AttributeName": "pk1",
+        "AttributeType": "S",
+      },
+      Object {
+        "AttributeName": "sk1",
+        "AttributeType": "S",
+      },
+      Object {
+        "AttributeName": "pk2",
+        "AttributeType": "S",
+      },
+      Object {
+        "AttributeName": "sk2",
+        "AttributeType": "S",
+      },
+    ],
+    "BillingMode": "PAY_PER_REQUEST",
+    "GlobalSecondaryIndexes": Array [
+      Object {
+        "IndexName": "gsi1",
+        "KeySchema": Array [
+          Object {
+            "AttributeName": "pk2",
+            "KeyType": "HASH",
+          },
+          Object {
+            "AttributeName": "sk2",
+            "KeyType": "RANGE",
+          },
+        ],
+        "Projection": Object {
+          "ProjectionType": "ALL",
+        },
+      },
+    ],
+    "KeySchema": Array [
+      Object {
+        "AttributeName": "pk1",
+        "KeyType": "HASH",
+      },
+      Object {
+        "AttributeName": "sk1",
+        "KeyType": "RANGE",
+      },
+    ],
+    "TableName": "table1",
+    "TimeToLiveSpecification": Object {
+      "AttributeName": "ttl",
+      "Enabled": true,
+    },
+  },
+  "Type": "AWS::DynamoDB::Table",
+}
+`);
+});
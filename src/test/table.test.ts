@@ -0,0 +1,180 @@
+import { z } from "zod";
+import { expectTypeOf } from "expect-type";
+import { Repository } from "../repository";
+import { RepositoryArgs } from "../mapper";
+import { Table } from "../table";
+import { tableConfig } from "./utils/tableConfig";
+import { getDocumentClient } from "./utils/getDocumentClient";
+
+const getTable = () => new Table(tableConfig, getDocumentClient());
+
+const userSchema = z.object({
+  id: z.string(),
+  orgId: z.string(),
+});
+
+const userArgs: Omit<
+  RepositoryArgs<
+    typeof userSchema,
+    z.infer<typeof userSchema>,
+    "id",
+    "primary",
+    "orgId"
+  >,
+  "tableName" | "documentClient"
+> = {
+  typeName: "User",
+  schema: userSchema,
+  primaryIndex: {
+    tag: "primary",
+    pk: "pk0",
+    sk: "sk0",
+    fields: ["id"],
+  },
+  secondaryIndexes: {
+    orgId: {
+      indexName: "gsi1",
+      pk: "pk1",
+      sk: "sk1",
+      fields: ["orgId", "id"],
+    },
+  },
+};
+
+test("createRepository should create a repository stored in the table", async () => {
+  const table = getTable();
+  const userRepo = table.createRepository({
+    typeName: "User",
+    schema: z.object({
+      id: z.string(),
+      orgId: z.string(),
+    }),
+    primaryIndex: {
+      tag: "primary",
+      pk: "pk0",
+      sk: "sk0",
+      fields: ["id"],
+    },
+    secondaryIndexes: {
+      orgId: {
+        indexName: "gsi1",
+        pk: "pk1",
+        sk: "sk1",
+        fields: ["orgId", "id"],
+      },
+    },
+  });
+  expect(table.repositories).toEqual([userRepo]);
+  expectTypeOf(userRepo.get).parameter(0).toEqualTypeOf<{ id: string }>();
+
+  await userRepo.put({ id: "1", orgId: "o1" });
+  await expect(
+    userRepo.query("orgId").where({ orgId: "o1" }).exec()
+  ).resolves.toMatchObject({ Items: [{ id: "1", orgId: "o1" }] });
+});
+
+test("register should validate indexes against the table config", () => {
+  const table = getTable();
+  expect(() =>
+    table.createRepository({
+      ...userArgs,
+      primaryIndex: { ...userArgs.primaryIndex, sk: "sk1" },
+    })
+  ).toThrowErrorMatchingInlineSnapshot(
+    `"SingleTableTableValidationError: User primaryIndex (pk0, sk1) does not match the primary index (pk0, sk0) of table THINGS_TABLE."`
+  );
+  expect(() =>
+    table.createRepository({
+      ...userArgs,
+      secondaryIndexes: {
+        orgId: { ...userArgs.secondaryIndexes!.orgId, indexName: "gsi99" },
+      },
+    })
+  ).toThrowErrorMatchingInlineSnapshot(
+    `"SingleTableTableValidationError: User secondary index orgId uses index gsi99, which does not exist in table THINGS_TABLE."`
+  );
+  expect(() =>
+    table.createRepository({
+      ...userArgs,
+      secondaryIndexes: {
+        orgId: { ...userArgs.secondaryIndexes!.orgId, pk: "pk2" },
+      },
+    })
+  ).toThrowErrorMatchingInlineSnapshot(
+    `"SingleTableTableValidationError: User secondary index orgId (pk2, sk1) does not match index gsi1 (pk1, sk1) of table THINGS_TABLE."`
+  );
+  expect(() =>
+    table.register(
+      new Repository({
+        ...userArgs,
+        tableName: "table1",
+        documentClient: getDocumentClient(),
+      })
+    )
+  ).toThrowErrorMatchingInlineSnapshot(
+    `"SingleTableTableValidationError: User is stored in table table1, but was registered with table THINGS_TABLE."`
+  );
+  expect(table.repositories).toEqual([]);
+});
+
+test("register should reject duplicate typeNames and colliding key prefixes", () => {
+  const table = getTable();
+  table.createRepository(userArgs);
+  expect(() =>
+    table.createRepository(userArgs)
+  ).toThrowErrorMatchingInlineSnapshot(
+    `"SingleTableTableValidationError: User is already the typeName of another repository."`
+  );
+  expect(() =>
+    table.createRepository({ ...userArgs, typeName: "User#Admin" })
+  ).toThrowErrorMatchingInlineSnapshot(
+    `"SingleTableTableValidationError: User#Admin key prefix User#Admin collides with the key prefix User of User."`
+  );
+  // sharing a partition key prefix is how item collections are declared
+  table.createRepository({
+    ...userArgs,
+    typeName: "Profile",
+    primaryIndex: { ...userArgs.primaryIndex, partitionKeyPrefix: "User" },
+  });
+  expect(table.repositories).toHaveLength(2);
+});
+
+test("register should reject typeNames prefixing each other in a shared partition", () => {
+  const table = getTable();
+  const primaryIndex = {
+    ...userArgs.primaryIndex,
+    partitionKeyPrefix: "Customer",
+  };
+  table.createRepository({ ...userArgs, typeName: "Order", primaryIndex });
+  expect(() =>
+    table.createRepository({ ...userArgs, typeName: "OrderLine", primaryIndex })
+  ).toThrowErrorMatchingInlineSnapshot(
+    `"SingleTableTableValidationError: OrderLine typeName collides with the typeName Order, they share the partition key prefix Customer of pk0."`
+  );
+  // in their own partitions the sort keys of Order never match OrderLine items
+  table.createRepository({
+    ...userArgs,
+    typeName: "OrderLine",
+    secondaryIndexes: {},
+  });
+  expect(table.repositories).toHaveLength(2);
+});
+
+test("collection should only accept registered repositories", () => {
+  const table = getTable();
+  const userRepo = table.createRepository(userArgs);
+  const otherRepo = new Repository({
+    ...userArgs,
+    typeName: "Other",
+    tableName: "THINGS_TABLE",
+    documentClient: getDocumentClient(),
+  });
+  expect(() =>
+    table.collection({ User: userRepo }, "primary").where({ id: "1" })
+  ).not.toThrow();
+  expect(() =>
+    table.collection({ User: userRepo, Other: otherRepo }, "primary")
+  ).toThrowErrorMatchingInlineSnapshot(
+    `"SingleTableTableValidationError: Other is not registered with table THINGS_TABLE."`
+  );
+});
@@ -0,0 +1,134 @@
+import { z } from "zod";
+import { Repository } from "../repository";
+import { getDocumentClient } from "./utils/getDocumentClient";
+
+function getTaskRepo() {
+  let time = 0;
+  const repo = new Repository({
+    tableName: "table1",
+    typeName: "Task",
+    schema: z.object({
+      id: z.string(),
+      owner: z.string(),
+      title: z.string(),
+      createdAt: z.string().optional(),
+      updatedAt: z.string().optional(),
+    }),
+    primaryIndex: {
+      tag: "primary",
+      pk: "pk1",
+      sk: "sk1",
+      fields: ["id"],
+    },
+    secondaryIndexes: {
+      "owner,createdAt": {
+        pk: "pk2",
+        sk: "sk2",
+        fields: ["owner", "createdAt"],
+        indexName: "gsi1",
+      },
+    },
+    timestamps: {
+      now: () => `t${++time}`,
+    },
+    documentClient: getDocumentClient(),
+  });
+  return repo;
+}
+
+test("put and merge should stamp timestamps", async () => {
+  const repo = getTaskRepo();
+
+  await expect(
+    repo.put({ id: "1", owner: "jim", title: "a" })
+  ).resolves.toEqual({
+    id: "1",
+    owner: "jim",
+    title: "a",
+    createdAt: "t1",
+    updatedAt: "t1",
+  });
+  await expect(repo.merge({ id: "1", title: "b" })).resolves.toEqual({
+    id: "1",
+    owner: "jim",
+    title: "b",
+    createdAt: "t1",
+    updatedAt: "t2",
+  });
+});
+
+test("putMany should stamp timestamps", async () => {
+  const repo = getTaskRepo();
+
+  await expect(
+    repo.putMany([
+      { id: "1", owner: "jim", title: "a" },
+      { id: "2", owner: "jim", title: "b", createdAt: "t0" },
+    ])
+  ).resolves.toEqual([
+    { id: "1", owner: "jim", title: "a", createdAt: "t1", updatedAt: "t1" },
+    { id: "2", owner: "jim", title: "b", createdAt: "t0", updatedAt: "t2" },
+  ]);
+});
+
+test("put and putMany upserts should keep the stored createdAt", async () => {
+  const repo = getTaskRepo();
+  await repo.put({ id: "1", owner: "jim", title: "a" });
+  await repo.put({ id: "2", owner: "jim", title: "b" });
+
+  await expect(
+    repo.put({ id: "1", owner: "jim", title: "c" })
+  ).resolves.toMatchObject({ createdAt: "t1", updatedAt: "t3" });
+  await expect(
+    repo.putMany([
+      { id: "2", owner: "jim", title: "d" },
+      { id: "3", owner: "jim", title: "e" },
+    ])
+  ).resolves.toMatchObject([
+    { id: "2", createdAt: "t2", updatedAt: "t4" },
+    { id: "3", createdAt: "t5", updatedAt: "t5" },
+  ]);
+  // the index keys are derived from the kept createdAt
+  const byOwner = await repo
+    .query("owner,createdAt")
+    .where({ owner: "jim" })
+    .exec();
+  expect(byOwner.Items.map((i) => i.id)).toEqual(["1", "2", "3"]);
+});
+
+test("mutate and putExpression should keep createdAt", async () => {
+  const repo = getTaskRepo();
+
+  await expect(
+    repo.putExpression({ id: "1", owner: "jim", title: "a" })
+  ).resolves.toMatchObject({ createdAt: "t1", updatedAt: "t1" });
+  await expect(
+    repo.putExpression({ id: "1", owner: "jim", title: "b" })
+  ).resolves.toMatchObject({ title: "b", createdAt: "t1", updatedAt: "t2" });
+  await expect(repo.mutate({ id: "1", title: "c" })).resolves.toMatchObject({
+    title: "c",
+    createdAt: "t1",
+    updatedAt: "t3",
+  });
+
+  // the index key derived from createdAt is preserved too
+  await expect(
+    repo.query("owner,createdAt").where({ owner: "jim" }).exec()
+  ).resolves.toMatchObject({
+    Items: [{ id: "1", title: "c", createdAt: "t1" }],
+  });
+});
+
+test("timestamps should be usable as sort key fields", async () => {
+  const repo = getTaskRepo();
+  await repo.put({ id: "1", owner: "jim", title: "a" });
+  await repo.put({ id: "2", owner: "jim", title: "b" });
+  await repo.put({ id: "3", owner: "pam", title: "c" });
+
+  const res = await repo
+    .query("owner,createdAt")
+    .where({ owner: "jim" })
+    .sort("desc")
+    .exec();
+  expect(res.Items.map((i) => i.id)).toEqual(["2", "1"]);
+});
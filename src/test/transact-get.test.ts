@@ -0,0 +1,120 @@
+import { Repository } from "../repository";
+import { transactGet } from "../batch-get";
+import { z } from "zod";
+import { expectTypeOf } from "expect-type";
+import { stubDocumentClient } from "./utils/stubDocumentClient";
+
+function getReposAndStub() {
+  const { ddb, send } = stubDocumentClient();
+  const thingRepo = new Repository({
+    tableName: "table1",
+    typeName: "Thing",
+    schema: z.object({
+      id: z.string(),
+      name: z.string(),
+    }),
+    primaryIndex: {
+      tag: "primary",
+      pk: "pk1",
+      sk: "sk1",
+      fields: ["id"],
+    },
+    documentClient: ddb,
+  });
+  const personRepo = new Repository({
+    tableName: "table1",
+    typeName: "Person",
+    schema: z.object({
+      personId: z.string(),
+      age: z.number(),
+    }),
+    primaryIndex: {
+      tag: "primary",
+      pk: "pk1",
+      sk: "sk1",
+      fields: ["personId"],
+    },
+    migrate: (raw: any) => ({ ...raw, age: Number(raw.age) }),
+    documentClient: ddb,
+  });
+
+  return { thingRepo, personRepo, ddb, send };
+}
+
+test("transactGet should parse each item with its repository", async () => {
+  const { thingRepo, personRepo, ddb, send } = getReposAndStub();
+  send.returns(
+    Promise.resolve({
+      Responses: [
+        { Item: { id: "1", name: "yes", pk1: "Thing#1", sk1: "Thing" } },
+        { Item: { personId: "2", age: "5", pk1: "Person#2", sk1: "Person" } },
+        {},
+      ],
+    })
+  );
+
+  const res = await transactGet(ddb, [
+    thingRepo.batch.get({ id: "1" }),
+    personRepo.batch.get({ personId: "2" }),
+    thingRepo.batch.get({ id: "1" }),
+    thingRepo.batch.get({ id: "3" }),
+  ]);
+
+  expectTypeOf(res[0]).toEqualTypeOf<{ id: string; name: string } | null>();
+  expectTypeOf(res[1]).toEqualTypeOf<{
+    personId: string;
+    age: number;
+  } | null>();
+  expect(res).toEqual([
+    { id: "1", name: "yes" },
+    { personId: "2", age: 5 },
+    { id: "1", name: "yes" },
+    null,
+  ]);
+  // duplicate keys are only requested once
+  expect(send.getCall(0)?.args[0].input).toMatchInlineSnapshot(`
+Object {
+  "TransactItems": Array [
+    Object {
+      "Get": Object {
+        "Key": Object {
+          "pk1": "Thing#1",
+          "sk1": "Thing",
+        },
+        "TableName": "table1",
+      },
+    },
+    Object {
+      "Get": Object {
+        "Key": Object {
+          "pk1": "Person#2",
+          "sk1": "Person",
+        },
+        "TableName": "table1",
+      },
+    },
+    Object {
+      "Get": Object {
+        "Key": Object {
+          "pk1": "Thing#3",
+          "sk1": "Thing",
+        },
+        "TableName": "table1",
+      },
+    },
+  ],
+}
+`);
+});
+
+test("transactGet should wrap dynamodb errors", async () => {
+  const { thingRepo, ddb, send } = getReposAndStub();
+  send.returns(Promise.reject(new Error("nope")));
+
+  await expect(
+    transactGet(ddb, [thingRepo.batch.get({ id: "1" })])
+  ).rejects.toMatchObject({
+    name: "single-table-Error",
+    message: "There was an error executing transactGet",
+  });
+});
@@ -0,0 +1,234 @@
+import { GetCommand } from "@aws-sdk/lib-dynamodb";
+import { Repository } from "../repository";
+import { transaction } from "../transaction";
+import { z } from "zod";
+import { stubDocumentClient } from "./utils/stubDocumentClient";
+
+function getReposAndStub() {
+  const { ddb, send } = stubDocumentClient();
+  const spies = {
+    put: jest.fn(),
+    delete: jest.fn(),
+    mutate: jest.fn(),
+  };
+  const orderRepo = new Repository({
+    tableName: "table1",
+    typeName: "Order",
+    schema: z.object({
+      id: z.string(),
+      total: z.number(),
+    }),
+    primaryIndex: {
+      tag: "primary",
+      pk: "pk1",
+      sk: "sk1",
+      fields: ["id"],
+    },
+    on: spies,
+    documentClient: ddb,
+  });
+  const lineItemRepo = new Repository({
+    tableName: "table1",
+    typeName: "LineItem",
+    schema: z.object({
+      orderId: z.string(),
+      id: z.string(),
+      quantity: z.number(),
+    }),
+    primaryIndex: {
+      tag: "primary",
+      pk: "pk1",
+      sk: "sk1",
+      fields: ["orderId", "id"],
+    },
+    on: spies,
+    documentClient: ddb,
+  });
+
+  return { orderRepo, lineItemRepo, ddb, send, spies };
+}
+
+test("transaction should send every operation in one TransactWriteItems call", async () => {
+  const { orderRepo, lineItemRepo, ddb, send, spies } = getReposAndStub();
+  send.returns(Promise.resolve({}));
+
+  const res = await transaction({
+    ddb,
+    requests: [
+      orderRepo.transact.put({ id: "o1", total: 5 }, { mode: "create" }),
+      lineItemRepo.transact.put({ orderId: "o1", id: "l1", quantity: 2 }),
+      lineItemRepo.transact.mutate({ orderId: "o1", id: "l2", quantity: 3 }),
+      lineItemRepo.transact.delete({ orderId: "o1", id: "l3" }),
+      orderRepo.transact.conditionCheck({ id: "o0" }, "notExists"),
+    ],
+  });
+
+  expect(res).toEqual([
+    { id: "o1", total: 5 },
+    { orderId: "o1", id: "l1", quantity: 2 },
+    true,
+    true,
+    true,
+  ]);
+  // the mutated item is read after the commit for the mutate hook
+  expect(send.callCount).toBe(2);
+  expect(send.getCall(1)?.args[0]).toBeInstanceOf(GetCommand);
+  expect(send.getCall(0)?.args[0].input).toMatchInlineSnapshot(`
+Object {
+  "TransactItems": Array [
+    Object {
+      "Put": Object {
+        "ConditionExpression": "attribute_not_exists(pk1) AND attribute_not_exists(sk1)",
+        "Item": Object {
+          "id": "o1",
+          "pk1": "Order#o1",
+          "sk1": "Order",
+          "total": 5,
+        },
+        "TableName": "table1",
+      },
+    },
+    Object {
+      "Put": Object {
+        "Item": Object {
+          "id": "l1",
+          "orderId": "o1",
+          "pk1": "LineItem#o1",
+          "quantity": 2,
+          "sk1": "LineItem#l1",
+        },
+        "TableName": "table1",
+      },
+    },
+    Object {
+      "Update": Object {
+        "ConditionExpression": "attribute_exists(pk1) AND attribute_exists(sk1)",
+        "ExpressionAttributeNames": Object {
+          "#attr0": "orderId",
+          "#attr1": "id",
+          "#attr2": "quantity",
+        },
+        "ExpressionAttributeValues": Object {
+          ":value0": "o1",
+          ":value1": "l2",
+          ":value2": 3,
+        },
+        "Key": Object {
+          "pk1": "LineItem#o1",
+          "sk1": "LineItem#l2",
+        },
+        "TableName": "table1",
+        "UpdateExpression": "set #attr0 = :value0, #attr1 = :value1, #attr2 = :value2",
+      },
+    },
+    Object {
+      "Delete": Object {
+        "Key": Object {
+          "pk1": "LineItem#o1",
+          "sk1": "LineItem#l3",
+        },
+        "TableName": "table1",
+      },
+    },
+    Object {
+      "ConditionCheck": Object {
+        "ConditionExpression": "attribute_not_exists(pk1) AND attribute_not_exists(sk1)",
+        "Key": Object {
+          "pk1": "Order#o0",
+          "sk1": "Order",
+        },
+        "TableName": "table1",
+      },
+    },
+  ],
+}
+`);
+  expect(spies.put).toHaveBeenCalledTimes(2);
+  expect(spies.mutate).toHaveBeenCalledTimes(1);
+  expect(spies.delete).toHaveBeenCalledTimes(1);
+});
+
+test("transact.mutate should invoke the mutate hook with the committed item", async () => {
+  const { lineItemRepo, ddb, send, spies } = getReposAndStub();
+  const updates = { orderId: "o1", id: "l2", quantity: 3 };
+  send.onCall(0).returns(Promise.resolve({}));
+  send.onCall(1).returns(
+    Promise.resolve({
+      Item: { ...updates, pk1: "LineItem#o1", sk1: "LineItem#l2" },
+    })
+  );
+
+  await transaction({ ddb, requests: [lineItemRepo.transact.mutate(updates)] });
+
+  expect(send.getCall(1)?.args[0].input).toEqual({
+    TableName: "table1",
+    Key: { pk1: "LineItem#o1", sk1: "LineItem#l2" },
+    ConsistentRead: true,
+  });
+  expect(spies.mutate).toHaveBeenCalledWith([updates, {}], updates, {
+    TableName: "table1",
+    Key: { pk1: "LineItem#o1", sk1: "LineItem#l2" },
+    Item: { ...updates, pk1: "LineItem#o1", sk1: "LineItem#l2" },
+  });
+});
+
+test("canceled transactions should report the failed operation and not call hooks", async () => {
+  const { orderRepo, lineItemRepo, ddb, send, spies } = getReposAndStub();
+  send.returns(
+    Promise.reject(
+      Object.assign(new Error("Transaction cancelled"), {
+        name: "TransactionCanceledException",
+        CancellationReasons: [
+          { Code: "None" },
+          {
+            Code: "ConditionalCheckFailed",
+            Message: "The conditional request failed",
+          },
+        ],
+      })
+    )
+  );
+
+  const err = await transaction({
+    ddb,
+    requests: [
+      orderRepo.transact.put({ id: "o1", total: 5 }),
+      lineItemRepo.transact.put(
+        { orderId: "o1", id: "l1", quantity: 2 },
+        { mode: "create" }
+      ),
+    ],
+  }).catch((e) => e);
+
+  expect(err).toMatchObject({
+    name: "single-table-TransactionCanceledError",
+    message:
+      "Transaction was canceled, failed operations: put LineItem (ConditionalCheckFailed)",
+    meta: {
+      failedOperations: [
+        {
+          index: 1,
+          action: "put",
+          typeName: "LineItem",
+          code: "ConditionalCheckFailed",
+          Key: { pk1: "LineItem#o1", sk1: "LineItem#l1" },
+        },
+      ],
+    },
+  });
+  expect(spies.put).not.toHaveBeenCalled();
+});
+
+test("transaction should reject more than 100 operations", async () => {
+  const { orderRepo, ddb, send } = getReposAndStub();
+
+  await expect(
+    transaction({
+      ddb,
+      requests: [...Array(101).keys()].map((i) =>
+        orderRepo.transact.delete({ id: String(i) })
+      ),
+    })
+  ).rejects.toMatchObject({ name: "single-table-Error" });
+  expect(send.called).toBe(false);
+});
@@ -0,0 +1,91 @@
+import { z } from "zod";
+import { GetCommand } from "@aws-sdk/lib-dynamodb";
+import { Repository } from "../repository";
+import { getDocumentClient } from "./utils/getDocumentClient";
+
+const getSessionRepo = (hideExpired?: boolean) =>
+  new Repository({
+    tableName: "table1",
+    typeName: "Session",
+    schema: z.object({
+      id: z.string(),
+      userId: z.string(),
+      expiresAt: z.number().optional(),
+    }),
+    primaryIndex: {
+      tag: "primary",
+      pk: "pk1",
+      sk: "sk1",
+      fields: ["id"],
+    },
+    secondaryIndexes: {
+      userId: {
+        pk: "pk2",
+        sk: "sk2",
+        fields: ["userId"],
+        indexName: "gsi1",
+      },
+    },
+    ttl: {
+      attribute: "ttl",
+      expiresAt: (session) => session.expiresAt,
+      hideExpired,
+    },
+    documentClient: getDocumentClient(),
+  });
+
+const nowInSeconds = () => Math.floor(Date.now() / 1000);
+
+test("put should write the ttl attribute in epoch seconds", async () => {
+  const repo = getSessionRepo();
+  const expiresAt = nowInSeconds() + 60;
+  await repo.put({ id: "1", userId: "jim", expiresAt });
+  await repo.put({ id: "2", userId: "jim" });
+
+  const getRaw = (id: string) =>
+    getDocumentClient().send(
+      new GetCommand({ TableName: "table1", Key: repo.getKey({ id }) })
+    );
+  await expect(getRaw("1")).resolves.toMatchObject({
+    Item: { ttl: expiresAt },
+  });
+  await expect(getRaw("2")).resolves.not.toHaveProperty("Item.ttl");
+  // the ttl attribute is not part of the schema
+  await expect(repo.get({ id: "1" })).resolves.toEqual({
+    id: "1",
+    userId: "jim",
+    expiresAt,
+  });
+});
+
+test("duration should be relative to the time of the put", async () => {
+  const repo = new Repository({
+    tableName: "table1",
+    typeName: "Token",
+    schema: z.object({ id: z.string() }),
+    primaryIndex: { tag: "primary", pk: "pk1", sk: "sk1", fields: ["id"] },
+    ttl: { attribute: "ttl", duration: 60 * 60 },
+    documentClient: getDocumentClient(),
+  });
+  const before = nowInSeconds();
+  const { ttl } = repo.mapper.decorateWithKeys({ id: "1" });
+  expect(ttl).toBeGreaterThanOrEqual(before + 60 * 60);
+  expect(ttl).toBeLessThanOrEqual(nowInSeconds() + 60 * 60);
+});
+
+test("get and query should hide expired items when hideExpired is set", async () => {
+  const visible = getSessionRepo();
+  const repo = getSessionRepo(true);
+  await repo.put({ id: "1", userId: "jim", expiresAt: nowInSeconds() - 1 });
+  await repo.put({ id: "2", userId: "jim", expiresAt: nowInSeconds() + 60 });
+  await repo.put({ id: "3", userId: "jim" });
+
+  await expect(repo.get({ id: "1" })).resolves.toBeNull();
+  await expect(repo.get({ id: "2" })).resolves.toMatchObject({ id: "2" });
+  await expect(visible.get({ id: "1" })).resolves.toMatchObject({ id: "1" });
+
+  const res = await repo.query("userId").where({ userId: "jim" }).exec();
+  expect(res.Items.map((i) => i.id).sort()).toEqual(["2", "3"]);
+  const all = await visible.query("userId").where({ userId: "jim" }).exec();
+  expect(all.Items).toHaveLength(3);
+});
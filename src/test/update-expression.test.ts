@@ -0,0 +1,100 @@
+import { z } from "zod";
+import { Repository } from "../repository";
+import { getDocumentClient } from "./utils/getDocumentClient";
+
+const getArticleRepo = () =>
+  new Repository({
+    tableName: "table1",
+    typeName: "Article",
+    schema: z.object({
+      id: z.string(),
+      title: z.string(),
+      views: z.number(),
+      likes: z.number().optional(),
+      comments: z.array(z.string()),
+      tags: z.set(z.string()).optional(),
+      subtitle: z.string().optional(),
+    }),
+    primaryIndex: {
+      tag: "primary",
+      pk: "pk1",
+      sk: "sk1",
+      fields: ["id"],
+    },
+    documentClient: getDocumentClient(),
+  });
+
+test("putExpression should support every update action", async () => {
+  const repo = getArticleRepo();
+  const { expression } = repo;
+
+  await expect(
+    repo.putExpression({
+      id: "1",
+      title: expression.ifNotExists("first"),
+      views: expression.increment(),
+      comments: expression.listAppend(["b"]),
+      tags: expression.setAdd(new Set(["a", "b", "c"])),
+      subtitle: "sub",
+    })
+  ).resolves.toEqual({
+    id: "1",
+    title: "first",
+    views: 1,
+    comments: ["b"],
+    tags: new Set(["a", "b", "c"]),
+    subtitle: "sub",
+  });
+
+  await expect(
+    repo.putExpression({
+      id: "1",
+      title: expression.ifNotExists("second"),
+      views: expression.decrement(3),
+      comments: expression.listPrepend(["a"]),
+      tags: expression.setDelete(new Set(["b"])),
+      subtitle: expression.remove(),
+    })
+  ).resolves.toEqual({
+    id: "1",
+    title: "first",
+    views: -2,
+    comments: ["a", "b"],
+    tags: new Set(["a", "c"]),
+  });
+});
+
+test("mutate should support update actions", async () => {
+  const repo = getArticleRepo();
+  const { expression } = repo;
+  await repo.put({ id: "1", title: "a", views: 5, comments: [], likes: 2 });
+
+  await expect(
+    repo.mutate({
+      id: "1",
+      views: expression.increment(10),
+      likes: expression.remove(),
+      comments: expression.listAppend(["nice"]),
+    })
+  ).resolves.toEqual({
+    id: "1",
+    title: "a",
+    views: 15,
+    comments: ["nice"],
+  });
+});
+
+test("update actions should be type checked against the schema", () => {
+  const repo = getArticleRepo();
+  const { expression } = repo;
+  () =>
+    repo.mutate({
+      id: "1",
+      // @ts-expect-error title is a string
+      title: expression.increment(),
+      // @ts-expect-error views is required so it cannot be removed
+      views: expression.remove(),
+      // @ts-expect-error comments is a list of strings
+      comments: expression.listAppend([1]),
+    });
+});
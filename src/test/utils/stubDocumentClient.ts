@@ -0,0 +1,17 @@
+import sinon from "sinon";
+import { getDocumentClient } from "./getDocumentClient";
+
+type Command = { input: Record<string, any> };
+
+/**
+ * Returns a document client whose send is a stub, so tests
+ * can choose the responses and inspect the commands that were sent
+ */
+export function stubDocumentClient() {
+  const ddb = getDocumentClient();
+  const send = sinon.stub(ddb, "send") as unknown as sinon.SinonStub<
+    [Command],
+    Promise<unknown>
+  >;
+  return { ddb, send };
+}
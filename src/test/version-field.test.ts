@@ -0,0 +1,148 @@
+import { z } from "zod";
+import { Repository } from "../repository";
+import { getDocumentClient } from "./utils/getDocumentClient";
+
+const getDocRepo = () =>
+  new Repository({
+    tableName: "table1",
+    typeName: "Doc",
+    schema: z.object({
+      id: z.string(),
+      title: z.string(),
+      version: z.number().optional(),
+    }),
+    primaryIndex: {
+      tag: "primary",
+      pk: "pk1",
+      sk: "sk1",
+      fields: ["id"],
+    },
+    versionField: "version",
+    documentClient: getDocumentClient(),
+  });
+
+test("put should increment the version", async () => {
+  const repo = getDocRepo();
+
+  await expect(repo.put({ id: "1", title: "a" })).resolves.toEqual({
+    id: "1",
+    title: "a",
+    version: 1,
+  });
+  await expect(
+    repo.put({ id: "1", title: "b", version: 1 }, { mode: "update" })
+  ).resolves.toEqual({ id: "1", title: "b", version: 2 });
+  await expect(repo.get({ id: "1" })).resolves.toEqual({
+    id: "1",
+    title: "b",
+    version: 2,
+  });
+});
+
+test("put with mode update should throw a VersionConflictError for a stale version", async () => {
+  const repo = getDocRepo();
+  await repo.put({ id: "1", title: "a" });
+  await repo.put({ id: "1", title: "b", version: 1 }, { mode: "update" });
+
+  await expect(
+    repo.put({ id: "1", title: "c", version: 1 }, { mode: "update" })
+  ).rejects.toMatchObject({
+    name: "single-table-VersionConflictError",
+    meta: {
+      typeName: "Doc",
+      expectedVersion: 1,
+      actualVersion: 2,
+    },
+  });
+  await expect(repo.get({ id: "1" })).resolves.toMatchObject({ title: "b" });
+});
+
+test("merge should conflict when the item changes after it was read", async () => {
+  const repo = getDocRepo();
+  await repo.put({ id: "1", title: "a" });
+
+  await expect(repo.merge({ id: "1", title: "b" })).resolves.toEqual({
+    id: "1",
+    title: "b",
+    version: 2,
+  });
+
+  // a merge that read version 1 before the merge above was written
+  await expect(
+    repo.merge({ id: "1", title: "c", version: 1 })
+  ).rejects.toMatchObject({
+    name: "single-table-VersionConflictError",
+  });
+});
+
+test("mutate should check the version when it is provided", async () => {
+  const repo = getDocRepo();
+  await repo.put({ id: "1", title: "a" });
+
+  await expect(
+    repo.mutate({ id: "1", title: "b", version: 1 })
+  ).resolves.toEqual({ id: "1", title: "b", version: 2 });
+  await expect(
+    repo.mutate({ id: "1", title: "c", version: 1 })
+  ).rejects.toMatchObject({
+    name: "single-table-VersionConflictError",
+  });
+
+  // without a version the write is unconditional but still increments
+  await expect(repo.mutate({ id: "1", title: "d" })).resolves.toEqual({
+    id: "1",
+    title: "d",
+    version: 3,
+  });
+
+  await expect(
+    repo.mutate({ id: "2", title: "d", version: 1 })
+  ).resolves.toBeNull();
+});
+
+test("putExpression should increment the version and check it when provided", async () => {
+  const repo = getDocRepo();
+
+  await expect(
+    repo.putExpression({ id: "1", title: "a" })
+  ).resolves.toMatchObject({ version: 1 });
+  await expect(
+    repo.putExpression({ id: "1", title: "b", version: 1 })
+  ).resolves.toMatchObject({ title: "b", version: 2 });
+  await expect(
+    repo.putExpression({ id: "1", title: "c", version: 1 })
+  ).rejects.toMatchObject({
+    name: "single-table-VersionConflictError",
+  });
+});
+
+test("putMany and soft deletes should increment the version", async () => {
+  const repo = new Repository({ ...getDocRepo().args, softDelete: true });
+  await repo.put({ id: "1", title: "a" });
+
+  await expect(
+    repo.putMany([{ id: "1", title: "b", version: 1 }])
+  ).resolves.toEqual([{ id: "1", title: "b", version: 2 }]);
+  // a write that read version 1 conflicts with putMany
+  await expect(
+    repo.put({ id: "1", title: "c", version: 1 }, { mode: "update" })
+  ).rejects.toMatchObject({
+    name: "single-table-VersionConflictError",
+  });
+
+  await repo.delete({ id: "1" });
+  await expect(
+    repo.get({ id: "1" }, { includeDeleted: true })
+  ).resolves.toMatchObject({ version: 3 });
+});
+
+test("mutate should report a failed condition without a version as a failed condition", async () => {
+  const repo = getDocRepo();
+  await repo.put({ id: "1", title: "a" });
+
+  await expect(
+    repo.mutate({ id: "1", title: "b" }, { condition: { title: ["=", "z"] } })
+  ).rejects.toMatchObject({
+    name: "single-table-ConditionalCheckFailedError",
+  });
+});
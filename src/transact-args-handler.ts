@@ -0,0 +1,223 @@
+import { GetCommand } from "@aws-sdk/lib-dynamodb";
+import { IndexField, Mapper } from "./mapper";
+import { UpdateExpression } from "./update-expression";
+import { Condition, buildConditionExpression } from "./condition-expression";
+import { TransactWriteRequest } from "./transaction";
+import {
+  getConditionExpression,
+  joinConditions,
+} from "./utils/getKeyCondition";
+import { AttributeRegistry } from "./utils/AttributeRegistry";
+import { z } from "zod";
+
+/**
+ * Builds operations that can be committed atomically with `transaction`.
+ * Hooks and dataLoader priming are deferred until the transaction commits.
+ */
+export class TransactArgsHandler<
+  Id,
+  Schema extends z.AnyZodObject,
+  Input = z.input<Schema>,
+  Output extends object = z.output<Schema>
+> {
+  private mapper: Mapper<
+    Schema,
+    Output,
+    IndexField<Output>,
+    string,
+    string,
+    Id
+  >;
+  private tableName: string;
+
+  constructor(
+    mapper: Mapper<Schema, Output, IndexField<Output>, string, string, Id>
+  ) {
+    this.tableName = mapper.args.tableName;
+    this.mapper = mapper;
+  }
+
+  private get primaryKeyFields() {
+    return [this.mapper.args.primaryIndex.pk, this.mapper.args.primaryIndex.sk];
+  }
+
+  put(
+    src: Input,
+    {
+      mode = "upsert",
+      condition,
+    }: {
+      mode?: "create" | "upsert" | "update";
+      condition?: Condition<Output>;
+    } = {}
+  ): TransactWriteRequest<Output> {
+    const input = this.mapper.parse(
+      this.mapper.withTimestamps(src as object),
+      "input"
+    );
+    const registry = new AttributeRegistry();
+    const ConditionExpression = joinConditions(
+      this.mapper.getPutCondition(mode, registry),
+      mode === "update"
+        ? this.mapper.getVersionCondition(input, registry)
+        : undefined,
+      condition && buildConditionExpression(condition, registry)
+    );
+    const parsed = this.mapper.withIncrementedVersion(input);
+    const rawItem = this.mapper.decorateWithKeys(parsed);
+    const Key = this.mapper.getKey(parsed);
+
+    return {
+      Operation: {
+        Put: {
+          TableName: this.tableName,
+          Item: rawItem,
+          ...(ConditionExpression && { ConditionExpression }),
+          ...registry.get(),
+        },
+      },
+      meta: { typeName: this.mapper.args.typeName, action: "put", Key },
+      result: parsed,
+      onSuccess: () => {
+        this.mapper.args.on?.put?.(
+          [parsed, { mode, ...(condition && { condition }) }],
+          parsed,
+          this.mapper.getHookResultInfo(parsed, rawItem)
+        );
+        this.mapper.dataLoaderPrime(rawItem, rawItem);
+      },
+    };
+  }
+
+  /**
+   * Deletes the item, or soft deletes it if the repository uses softDelete,
+   * in which case the transaction is canceled if the item does not exist
+   */
+  delete(
+    id: Id,
+    { condition }: { condition?: Condition<Output> } = {}
+  ): TransactWriteRequest<true> {
+    const Key = this.mapper.getKey(id);
+    const registry = new AttributeRegistry();
+
+    return {
+      Operation: this.mapper.args.softDelete
+        ? {
+            Update: this.mapper.getMarkDeletedArgs(id, condition),
+          }
+        : {
+            Delete: {
+              TableName: this.tableName,
+              Key,
+              ...(condition && {
+                ConditionExpression: buildConditionExpression(
+                  condition,
+                  registry
+                ),
+              }),
+              ...registry.get(),
+            },
+          },
+      meta: { typeName: this.mapper.args.typeName, action: "delete", Key },
+      result: true,
+      onSuccess: () => {
+        this.mapper.args.on?.delete?.(
+          [id as any],
+          true,
+          this.mapper.getHookKeyInfo(id)
+        );
+        this.mapper.dataLoaderPrime(id, null);
+      },
+    };
+  }
+
+  /**
+   * Updates the fields of an existing item, the transaction is
+   * canceled if the item does not exist or has been soft deleted.
+   *
+   * TransactWriteItems does not return the updated item, so when there
+   * is a mutate hook or a dataLoader the item is read once the transaction
+   * commits.  The hook is invoked with `null` if the read fails
+   */
+  mutate(
+    _updates: Id & Partial<UpdateExpression<Input>>,
+    { condition }: { condition?: Condition<Output> } = {}
+  ): TransactWriteRequest<true> {
+    const { input } = this.mapper.getMutateArgs(
+      _updates as Record<string, unknown>,
+      condition
+    );
+    const Key = input.Key;
+
+    return {
+      Operation: {
+        Update: input,
+      },
+      meta: { typeName: this.mapper.args.typeName, action: "mutate", Key },
+      result: true,
+      onSuccess: async () => {
+        const { dataLoader, on } = this.mapper.args;
+        if (!dataLoader && !on?.mutate) {
+          return;
+        }
+        const rawItem = await this.mapper.args.documentClient
+          .send(
+            new GetCommand({
+              TableName: this.tableName,
+              Key,
+              ConsistentRead: true,
+            })
+          )
+          .then((res) => res.Item ?? null)
+          .catch(() => undefined);
+        if (rawItem === undefined) {
+          this.mapper.dataLoaderClear(_updates);
+        } else {
+          this.mapper.dataLoaderPrime(_updates, rawItem);
+        }
+        on?.mutate?.(
+          [_updates as any, {}],
+          rawItem ? this.mapper.parse(rawItem, "output") : null,
+          this.mapper.getHookResultInfo(_updates, rawItem ?? null)
+        );
+      },
+    };
+  }
+
+  /**
+   * Cancels the transaction unless the item exists (or does not exist
+   * when `condition` is "notExists") or the stored item satisfies `condition`
+   */
+  conditionCheck(
+    id: Id,
+    condition: "exists" | "notExists" | Condition<Output> = "exists"
+  ): TransactWriteRequest<true> {
+    const Key = this.mapper.getKey(id);
+    const registry = new AttributeRegistry();
+    const ConditionExpression =
+      typeof condition === "string"
+        ? getConditionExpression(
+            this.primaryKeyFields,
+            condition === "exists" ? "update" : "create"
+          )
+        : buildConditionExpression(condition, registry);
+
+    return {
+      Operation: {
+        ConditionCheck: {
+          TableName: this.tableName,
+          Key,
+          ConditionExpression: ConditionExpression as string,
+          ...registry.get(),
+        },
+      },
+      meta: {
+        typeName: this.mapper.args.typeName,
+        action: "conditionCheck",
+        Key,
+      },
+      result: true,
+      onSuccess: () => undefined,
+    };
+  }
+}
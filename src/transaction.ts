@@ -0,0 +1,137 @@
+import {
+  DynamoDBDocumentClient as DocumentClient,
+  TransactWriteCommand,
+  TransactWriteCommandInput,
+} from "@aws-sdk/lib-dynamodb";
+import { STDError, isSingleTableDynamoError } from "./utils/errors";
+
+export type TransactWriteItem = NonNullable<
+  TransactWriteCommandInput["TransactItems"]
+>[number];
+
+export type TransactWriteRequest<Result = unknown> = {
+  Operation: TransactWriteItem;
+  /**
+   * Describes the operation, used to report which
+   * operation caused a transaction to be canceled
+   */
+  meta: {
+    typeName: string;
+    action: "put" | "delete" | "mutate" | "conditionCheck";
+    Key: Record<string, unknown>;
+  };
+  /**
+   * The value returned for this operation once the transaction commits
+   */
+  result: Result;
+  /**
+   * Invoked once the whole transaction has committed,
+   * this is where hooks are called and the dataLoader is primed
+   */
+  onSuccess: () => void | Promise<void>;
+};
+
+type TransactionResults<Requests extends TransactWriteRequest[]> = {
+  [K in keyof Requests]: Requests[K] extends TransactWriteRequest<infer R>
+    ? R
+    : never;
+};
+
+const TRANSACT_WRITE_REQUEST_LIMIT = 100;
+
+/**
+ * Commits every request atomically using TransactWriteItems.
+ * Either all of the requests are written or none of them are.
+ *
+ * @example
+ *    const [order] = await transaction({
+ *      ddb,
+ *      requests: [
+ *        orderRepo.transact.put(order, { mode: "create" }),
+ *        lineItemRepo.transact.put(lineItem, { mode: "create" }),
+ *        customerRepo.transact.conditionCheck({ id: order.customerId }),
+ *      ],
+ *    });
+ */
+export async function transaction<
+  Requests extends Array<TransactWriteRequest>
+>({
+  ddb,
+  requests,
+}: {
+  ddb: DocumentClient;
+  requests: [...Requests];
+}): Promise<TransactionResults<Requests>> {
+  if (requests.length > TRANSACT_WRITE_REQUEST_LIMIT) {
+    throw new STDError({
+      name: "single-table-Error",
+      message: `A transaction can contain at most ${TRANSACT_WRITE_REQUEST_LIMIT} operations, received ${requests.length}`,
+      meta: {
+        operationCount: requests.length,
+      },
+    });
+  }
+
+  try {
+    await ddb.send(
+      new TransactWriteCommand({
+        TransactItems: requests.map((r) => r.Operation),
+      })
+    );
+  } catch (e: any) {
+    if (isSingleTableDynamoError(e)) {
+      throw e;
+    }
+    if (e?.name === "TransactionCanceledException") {
+      throw getTransactionCanceledError(requests, e);
+    }
+    throw new STDError({
+      message: "There was an error executing transaction",
+      cause: e,
+      name: "single-table-Error",
+      meta: {
+        operations: requests.map((r) => r.meta),
+      },
+    });
+  }
+
+  await Promise.all(requests.map((r) => r.onSuccess()));
+
+  return requests.map((r) => r.result) as TransactionResults<Requests>;
+}
+
+function getTransactionCanceledError(
+  requests: TransactWriteRequest[],
+  error: {
+    CancellationReasons?: { Code?: string; Message?: string }[];
+  }
+) {
+  const failedOperations = (error.CancellationReasons || []).flatMap(
+    (reason, index) =>
+      reason.Code && reason.Code !== "None"
+        ? [
+            {
+              index,
+              ...requests[index]?.meta,
+              code: reason.Code,
+              message: reason.Message,
+            },
+          ]
+        : []
+  );
+
+  const description = failedOperations
+    .map((op) => `${op.action} ${op.typeName} (${op.code})`)
+    .join(", ");
+
+  return new STDError({
+    name: "single-table-TransactionCanceledError",
+    message: `Transaction was canceled${
+      description ? `, failed operations: ${description}` : ""
+    }`,
+    cause: error,
+    meta: {
+      failedOperations,
+    },
+  });
+}
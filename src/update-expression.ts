@@ -0,0 +1,212 @@
+import { AttributeRegistry } from "./utils/AttributeRegistry";
+
+const AddExpr = Symbol("Add");
+const RemoveExpr = Symbol("Remove");
+const IncrementExpr = Symbol("Increment");
+const DecrementExpr = Symbol("Decrement");
+const ListAppendExpr = Symbol("ListAppend");
+const ListPrependExpr = Symbol("ListPrepend");
+const IfNotExistsExpr = Symbol("IfNotExists");
+const SetAddExpr = Symbol("SetAdd");
+const SetDeleteExpr = Symbol("SetDelete");
+
+const updateActionSymbols = new Set<symbol>([
+  AddExpr,
+  RemoveExpr,
+  IncrementExpr,
+  DecrementExpr,
+  ListAppendExpr,
+  ListPrependExpr,
+  IfNotExistsExpr,
+  SetAddExpr,
+  SetDeleteExpr,
+]);
+
+type AnyUpdateAction = [symbol, unknown?];
+
+/**
+ * The actions that can be applied to a field with a value of type V
+ */
+export type UpdateAction<V> =
+  | [typeof AddExpr, V]
+  | [typeof IfNotExistsExpr, V]
+  | (undefined extends V ? [typeof RemoveExpr] : never)
+  | (V extends number
+      ? [typeof IncrementExpr | typeof DecrementExpr, number]
+      : never)
+  | (V extends Array<infer Item>
+      ? [typeof ListAppendExpr | typeof ListPrependExpr, Item[]]
+      : never)
+  | (V extends Set<infer Item>
+      ? [typeof SetAddExpr | typeof SetDeleteExpr, Set<Item>]
+      : never);
+
+export type UpdateExpression<T> = {
+  [Property in keyof T]: T[Property] | UpdateAction<T[Property]>;
+};
+
+/**
+ * Helpers used to build the values of an UpdateExpression
+ *
+ * @example
+ *    repo.putExpression({
+ *      id: "1",
+ *      views: repo.expression.increment(),
+ *      tags: repo.expression.setAdd(new Set(["new"])),
+ *      draft: repo.expression.remove(),
+ *    });
+ */
+export const updateExpressionHelpers = {
+  /**
+   * ADD a number to a numeric field, or values to a set
+   */
+  add<T>(thing: T): [typeof AddExpr, T] {
+    return [AddExpr, thing];
+  },
+  /**
+   * REMOVE the field from the item
+   */
+  remove(): [typeof RemoveExpr] {
+    return [RemoveExpr];
+  },
+  /**
+   * SET a numeric field to its current value (or 0) plus `by`
+   */
+  increment(by = 1): [typeof IncrementExpr, number] {
+    return [IncrementExpr, by];
+  },
+  /**
+   * SET a numeric field to its current value (or 0) minus `by`
+   */
+  decrement(by = 1): [typeof DecrementExpr, number] {
+    return [DecrementExpr, by];
+  },
+  /**
+   * Append items to the end of a list, creating the list if it does not exist
+   */
+  listAppend<Item>(items: Item[]): [typeof ListAppendExpr, Item[]] {
+    return [ListAppendExpr, items];
+  },
+  /**
+   * Prepend items to the start of a list, creating the list if it does not exist
+   */
+  listPrepend<Item>(items: Item[]): [typeof ListPrependExpr, Item[]] {
+    return [ListPrependExpr, items];
+  },
+  /**
+   * Only SET the field if it does not already have a value
+   */
+  ifNotExists<T>(value: T): [typeof IfNotExistsExpr, T] {
+    return [IfNotExistsExpr, value];
+  },
+  /**
+   * ADD values to a DynamoDB set
+   */
+  setAdd<Item>(values: Set<Item>): [typeof SetAddExpr, Set<Item>] {
+    return [SetAddExpr, values];
+  },
+  /**
+   * DELETE values from a DynamoDB set
+   */
+  setDelete<Item>(values: Set<Item>): [typeof SetDeleteExpr, Set<Item>] {
+    return [SetDeleteExpr, values];
+  },
+};
+
+export function isUpdateAction(value: unknown): value is AnyUpdateAction {
+  return (
+    Array.isArray(value) &&
+    typeof value[0] === "symbol" &&
+    updateActionSymbols.has(value[0])
+  );
+}
+
+export function isIfNotExistsAction(value: unknown) {
+  return isUpdateAction(value) && value[0] === IfNotExistsExpr;
+}
+
+/**
+ * Separates the update actions of an UpdateExpression from its values.
+ * `values` contains the operand of each action so it can be validated
+ * against the schema, removed fields are omitted.
+ */
+export function splitUpdateExpression(expr: Record<string, unknown>): {
+  values: Record<string, unknown>;
+  actions: Record<string, AnyUpdateAction>;
+} {
+  const values: Record<string, unknown> = {};
+  const actions: Record<string, AnyUpdateAction> = {};
+  for (const [key, value] of Object.entries(expr)) {
+    if (isUpdateAction(value)) {
+      actions[key] = value;
+      if (value[0] !== RemoveExpr) {
+        values[key] = value[1];
+      }
+    } else {
+      values[key] = value;
+    }
+  }
+  return { values, actions };
+}
+
+/**
+ * Builds an UpdateExpression that SETs every field of item, unless the
+ * field has an action in which case the action is applied using the
+ * (parsed) value of the field in item as its operand
+ */
+export function buildUpdateExpression(
+  item: Record<string, unknown>,
+  actions: Record<string, AnyUpdateAction>,
+  registry: AttributeRegistry
+): string {
+  const clauses = {
+    set: [] as string[],
+    add: [] as string[],
+    remove: [] as string[],
+    delete: [] as string[],
+  };
+
+  const fields = new Set([...Object.keys(item), ...Object.keys(actions)]);
+  for (const field of fields) {
+    const action = actions[field];
+    const operand = field in item ? item[field] : action?.[1];
+    const name = registry.key(field);
+
+    if (!action) {
+      clauses.set.push(`${name} = ${registry.value(operand)}`);
+    } else if (action[0] === AddExpr || action[0] === SetAddExpr) {
+      clauses.add.push(`${name} ${registry.value(operand)}`);
+    } else if (action[0] === SetDeleteExpr) {
+      clauses.delete.push(`${name} ${registry.value(operand)}`);
+    } else if (action[0] === RemoveExpr) {
+      clauses.remove.push(`${name}`);
+    } else if (action[0] === IncrementExpr || action[0] === DecrementExpr) {
+      clauses.set.push(
+        `${name} = if_not_exists(${name}, ${registry.value(0)}) ${
+          action[0] === IncrementExpr ? "+" : "-"
+        } ${registry.value(operand)}`
+      );
+    } else if (action[0] === ListAppendExpr) {
+      clauses.set.push(
+        `${name} = list_append(if_not_exists(${name}, ${registry.value(
+          []
+        )}), ${registry.value(operand)})`
+      );
+    } else if (action[0] === ListPrependExpr) {
+      clauses.set.push(
+        `${name} = list_append(${registry.value(
+          operand
+        )}, if_not_exists(${name}, ${registry.value([])}))`
+      );
+    } else if (action[0] === IfNotExistsExpr) {
+      clauses.set.push(
+        `${name} = if_not_exists(${name}, ${registry.value(operand)})`
+      );
+    }
+  }
+
+  return Object.entries(clauses)
+    .filter(([, expressions]) => expressions.length > 0)
+    .map(([clause, expressions]) => `${clause} ${expressions.join(", ")}`)
+    .join(" ");
+}
@@ -31,10 +31,21 @@ export class AttributeRegistry {
     return obj;
   }
 
-  get() {
+  /**
+   * DynamoDB rejects empty ExpressionAttributeNames/ExpressionAttributeValues
+   * so they are omitted when nothing has been registered
+   */
+  get(): {
+    ExpressionAttributeNames?: Record<string, string>;
+    ExpressionAttributeValues?: Record<string, unknown>;
+  } {
     return {
-      ExpressionAttributeNames: this.mapToObject(this.namesMap),
-      ExpressionAttributeValues: this.mapToObject(this.valuesMap),
+      ...(this.namesMap.size > 0 && {
+        ExpressionAttributeNames: this.mapToObject(this.namesMap),
+      }),
+      ...(this.valuesMap.size > 0 && {
+        ExpressionAttributeValues: this.mapToObject(this.valuesMap),
+      }),
     };
   }
 }
@@ -0,0 +1,40 @@
+/**
+ * Returns a random delay (in ms) before retry number attempt,
+ * between 0 and baseDelay * 2^attempt capped at maxDelay ("full jitter")
+ */
+export function getBackoffDelay(
+  attempt: number,
+  { baseDelay, maxDelay }: { baseDelay: number; maxDelay: number }
+) {
+  return Math.random() * Math.min(maxDelay, baseDelay * 2 ** attempt);
+}
+
+export function sleep(ms: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Maps items with fn, running at most concurrency calls at a time.
+ * Results are in the order of items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(
+    Array.from(
+      { length: Math.max(1, Math.min(concurrency, items.length)) },
+      worker
+    )
+  );
+  return results;
+}
@@ -2,22 +2,33 @@ export function isSingleTableDynamoError(thing: any): thing is STDError {
   return thing?.name?.startsWith("single-table-") || false;
 }
 
+export function isConditionalCheckFailedError(thing: unknown): boolean {
+  return (
+    (thing as { name?: unknown } | null | undefined)?.name ===
+    "ConditionalCheckFailedException"
+  );
+}
+
+export type STDErrorName =
+  | "single-table-InputValidationError"
+  | "single-table-OutputValidationError"
+  | "single-table-IdValidationError"
+  | "single-table-TransactionCanceledError"
+  | "single-table-VersionConflictError"
+  | "single-table-ConditionalCheckFailedError"
+  | "single-table-InvalidCursorError"
+  | "single-table-UnprocessedItemsError"
+  | "single-table-BatchWriteError"
+  | "single-table-Error";
+
 export class STDError extends Error {
-  name:
-    | "single-table-InputValidationError"
-    | "single-table-OutputValidationError"
-    | "single-table-IdValidationError"
-    | "single-table-Error";
+  name: STDErrorName;
 
   meta?: Record<string, any>;
   constructor(options: {
     message: string;
     cause?: any;
-    name:
-      | "single-table-InputValidationError"
-      | "single-table-OutputValidationError"
-      | "single-table-IdValidationError"
-      | "single-table-Error";
+    name: STDErrorName;
     meta?: Record<string, any>;
   }) {
     super(options.message, { cause: options.cause });
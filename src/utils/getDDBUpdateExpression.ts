@@ -1,13 +1,26 @@
 import { AttributeRegistry } from "./AttributeRegistry";
+import { buildUpdateExpression, isUpdateAction } from "../update-expression";
 
-export function getDDBUpdateExpression<T>(item: T) {
-  const registry = new AttributeRegistry();
-
-  const UpdateExpression = `set ${Object.entries(item as any)
-    .map(([key, value]) => {
-      return `${registry.key(key)} = ${registry.value(value)}`;
-    })
-    .join(", ")}`;
+export function getDDBUpdateExpression(
+  item: Record<string, unknown>,
+  {
+    registry = new AttributeRegistry(),
+    actions = {},
+  }: {
+    registry?: AttributeRegistry;
+    /**
+     * update actions (see update-expression.ts) to apply instead of SET
+     */
+    actions?: Record<string, unknown>;
+  } = {}
+) {
+  const updateActions: Parameters<typeof buildUpdateExpression>[1] = {};
+  for (const [field, action] of Object.entries(actions)) {
+    if (isUpdateAction(action)) {
+      updateActions[field] = action;
+    }
+  }
+  const UpdateExpression = buildUpdateExpression(item, updateActions, registry);
 
   return {
     ...registry.get(),
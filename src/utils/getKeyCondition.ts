@@ -25,3 +25,16 @@ export function getConditionExpression(
 
   throw new Error("Invalid mode: " + mode);
 }
+
+/**
+ * Joins the defined conditions with AND
+ */
+export function joinConditions(
+  ...conditions: (string | undefined)[]
+): string | undefined {
+  const defined = conditions.filter((c): c is string => Boolean(c));
+  if (defined.length <= 1) {
+    return defined[0];
+  }
+  return defined.map((c) => `(${c})`).join(" AND ");
+}